@@ -9,6 +9,9 @@ import { CounterManager } from './CounterManager';
 import { MacroManager } from './MacroManager';
 import { ParticipationManager } from './ParticipationManager';
 import { VoteManager } from './VoteManager';
+import { ChannelVariableManager } from './ChannelVariableManager';
+import { RewardManager } from './RewardManager';
+import { DEFAULT_TIMEZONE, getDateKey } from './TimeUtils';
 
 export class BotInstance {
     private client: ChzzkClient;
@@ -16,6 +19,7 @@ export class BotInstance {
     private botUserIdHash: string | null = null;
     private isLoggedIn: boolean = false;
     private livePollingTimer: NodeJS.Timeout | null = null;
+    private pointsTimer: NodeJS.Timeout | null = null;
     public liveDetail: LiveDetail | null = null;
     public channel: Channel | null = null;
     private wsBroadcastCallback: (type: string, payload: any) => void = () => { };
@@ -29,6 +33,8 @@ export class BotInstance {
     public macros!: MacroManager;
     public participation!: ParticipationManager;
     public vote!: VoteManager;
+    public variables!: ChannelVariableManager;
+    public rewards!: RewardManager;
 
     private onStateChangeCallback: (type: string, payload: any) => void = () => { };
     private onChatCallback: (chat: ChatEvent) => void = () => { };
@@ -58,13 +64,18 @@ export class BotInstance {
         this.macros = new MacroManager(this as any, data.macros);
         this.macros.setOnStateChangeListener(() => this.notify('macrosUpdate', this.macros.getMacros()));
         this.songs = new SongManager(this as any, data);
-        this.songs.setOnStateChangeListener(() => this.notify('songStateUpdate', this.songs.getState()));
+        this.songs.setOnStateChangeListener((type, payload) => this.notify(type, payload));
         this.points = new PointManager(data.points);
-        this.points.setOnStateChangeListener(() => this.notify('pointsUpdate', this.points.getPointsData()));
+        this.points.setOnStateChangeListener(() => { this.notify('pointsUpdate', this.points.getPointsData()); this.saveAll(); });
+        this.points.setOnTransactionListener((tx) => DataManager.logPointTransaction(this.channelId, tx));
         this.greet = new GreetManager(this as any, data.greetData);
         this.greet.setOnStateChangeListener(() => this.notify('greetStateUpdate', this.greet.getState()));
-        this.participation = new ParticipationManager(this as any, data.participants);
+        this.participation = new ParticipationManager(this as any, data.participants, data.participationCounts);
         this.participation.setOnStateChangeListener(() => this.notify('participationStateUpdate', this.participation.getState()));
+        this.variables = new ChannelVariableManager(this, data.customVariables);
+        this.variables.setOnStateChangeListener(() => this.notify('variablesUpdate', this.variables.getVariables()));
+        this.rewards = new RewardManager(this, data.rewards, data.redemptions);
+        this.rewards.setOnStateChangeListener(() => this.notify('rewardsUpdate', this.rewards.getState()));
 
         this.vote = new VoteManager(this);
 
@@ -73,6 +84,7 @@ export class BotInstance {
         try {
             await this.refreshLiveInfo();
             this.livePollingTimer = setInterval(() => this.refreshLiveInfo(), 30000);
+            this.pointsTimer = setInterval(() => this.points.accrueWatchTime(this.settings.getSettings(), this.liveDetail?.status === 'OPEN'), 60000);
             if (this.liveDetail?.chatChannelId) {
                 this.chat = this.client.chat({ channelId: this.channelId, chatChannelId: this.liveDetail.chatChannelId });
                 this.chat.on('chat', (chat) => this.handleChat(chat));
@@ -88,7 +100,10 @@ export class BotInstance {
         } catch (e) { }
     }
 
-    public async refreshLiveInfo() { try { this.channel = await this.client.channel(this.channelId); this.liveDetail = await this.client.live.detail(this.channelId); } catch (e) { } }
+    public async refreshLiveInfo() {
+        try { this.channel = await this.client.channel(this.channelId); this.liveDetail = await this.client.live.detail(this.channelId); } catch (e) { }
+        this.counters?.checkScheduledResets();
+    }
 
     private async handleChat(chat: ChatEvent) {
         if (this.botUserIdHash && chat.profile.userIdHash === this.botUserIdHash) return;
@@ -111,9 +126,16 @@ export class BotInstance {
 
             if (msg.startsWith('!')) {
                 const cmd = msg.split(' ')[0];
+                // 채팅 명령어/카운터 관리 (매니저 전용)
+                if (this.commands.isManageCommand(cmd)) return this.commands.handleManageCommand(chat, this.chat!);
+                if (this.counters.isManageCommand(cmd)) return this.counters.handleManageCommand(chat, this.chat!);
+                if (cmd === '!카운터순위') return this.counters.handleRankingCommand(chat, this.chat!);
+                if (cmd === '!변수') return this.variables.handleCommand(chat, this.chat!);
+
                 if (cmd === '!노래') await this.songs.handleCommand(chat, this.chat!, this.settings.getSettings());
-                else if (cmd === '!시참') await this.participation.handleCommand(chat, this.chat!);
-                else if (cmd === '!포인트' || cmd === this.settings.getSettings().pointsName) await this.points.handleCommand(chat, this.chat!, this.settings.getSettings());
+                else if (cmd === (this.settings.getSettings().participationCommand || '!시참')) await this.participation.handleCommand(chat, this.chat!);
+                else if (cmd === '!교환') await this.rewards.handleCommand(chat, this.chat!);
+                else if (cmd === '!포인트' || cmd === this.settings.getSettings().pointsName || cmd === `!${this.settings.getSettings().pointsName}`) await this.points.handleCommand(chat, this.chat!, this.settings.getSettings());
             }
             if (this.commands.hasCommand(msg)) await this.commands.executeCommand(chat, this.chat!);
             else if (this.counters.hasCounter(msg)) await this.counters.checkAndRespond(chat, this.chat!);
@@ -137,6 +159,7 @@ export class BotInstance {
         if (s.songRequestMode !== 'off') basicCmds.push('!노래');
         if (s.participationCommand) basicCmds.push(s.participationCommand);
         if (s.pointsPerChat > 0) basicCmds.push('!포인트');
+        if (this.rewards.getState().rewards.some(r => r.enabled)) basicCmds.push('!교환');
 
         // 3. 통합 메시지 생성
         let message = '';
@@ -152,12 +175,36 @@ export class BotInstance {
     private async handleDonation(donation: DonationEvent) {
         this.songs.addSongFromDonation(donation, donation.message || '', this.settings.getSettings());
         this.vote.handleVoteDonation(donation);
+        this.points.awardDonation(donation, this.settings.getSettings());
         await DataManager.logDonation(this.channelId, donation);
     }
 
+    /**
+     * 포인트 시즌 종료: 최종 순위를 보관한 뒤 잔액을 초기화/감소시키고 상위 3명을 발표합니다.
+     */
+    public async closePointSeason(name?: string, decayPercent?: number): Promise<boolean> {
+        const settings = this.settings.getSettings();
+        const seasonName = name?.trim() || `${getDateKey(this.getTimezone()).slice(0, 7)} 시즌`;
+        const percent = decayPercent ?? settings.pointsSeasonDecayPercent;
+        if (!Number.isFinite(percent) || percent < 0 || percent > 100) return false;
+        const rankings = this.points.getRanking(Number.MAX_SAFE_INTEGER).map((r, i) => ({ rank: i + 1, ...r }));
+
+        // 보관에 실패하면 잔액을 건드리지 않음
+        if (!await DataManager.archivePointSeason(this.channelId, { name: seasonName, decayPercent: percent, rankings })) return false;
+        this.points.decayAll(percent, `${seasonName} 종료`);
+
+        if (this.chat && rankings.length > 0) {
+            const medals = ['🥇', '🥈', '🥉'];
+            const top = rankings.slice(0, 3).map((r, i) => `${medals[i]} ${r.nickname}(${r.points.toLocaleString()})`).join(' ');
+            this.chat.sendChat(`🏁 ${seasonName} 종료! ${top}`);
+        }
+        return true;
+    }
+
     public getChannelInfo() { return { channelId: this.channelId, channelName: this.channel?.channelName || "정보 없음", channelImageUrl: this.channel?.channelImageUrl || "", followerCount: this.channel?.followerCount || 0 }; }
     public getLiveStatus() { return { liveTitle: this.liveDetail?.liveTitle || "오프라인", status: this.liveDetail?.status || "CLOSE", concurrentUserCount: this.liveDetail?.concurrentUserCount || 0, category: (this.liveDetail as any)?.liveCategoryValue || "미지정" }; }
     public getChannelId() { return this.channelId; }
+    public getTimezone() { return this.settings?.getSettings().timezone || DEFAULT_TIMEZONE; }
 
     public async saveAll() {
         await DataManager.saveData(this.channelId, {
@@ -168,13 +215,18 @@ export class BotInstance {
             points: this.points.getPointsData(),
             songQueue: this.songs.getData().songQueue,
             currentSong: this.songs.getData().currentSong,
+            songBlocklist: this.songs.getData().blocklist,
+            songFallback: this.songs.getData().fallback,
             greetData: this.greet.getData(),
-            participants: this.participation.getState()
+            participants: this.participation.getState(),
+            customVariables: this.variables.getVariables(),
+            rewards: this.rewards.getData().rewards,
+            redemptions: this.rewards.getData().redemptions
             // Vote state is ephemeral for now, or TODO: save
         });
     }
 
-    public async disconnect() { if (this.livePollingTimer) clearInterval(this.livePollingTimer); if (this.chat) { this.macros.stopAllMacros(); await this.chat.disconnect(); this.chat = null; } }
+    public async disconnect() { if (this.livePollingTimer) clearInterval(this.livePollingTimer); if (this.pointsTimer) clearInterval(this.pointsTimer); this.points.flush(); await DataManager.flushPointTransactions(this.channelId); if (this.chat) { this.macros.stopAllMacros(); await this.chat.disconnect(); this.chat = null; } }
 
     // [Fix] Lints
     public isConnected() { return this.chat?.connected ?? false; }
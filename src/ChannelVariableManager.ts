@@ -0,0 +1,83 @@
+import { ChatEvent, ChzzkChat } from 'chzzk';
+import { BotInstance } from './BotInstance';
+import { isManager } from './Permissions';
+
+const NAME_PATTERN = /^[A-Za-z0-9_가-힣]{1,30}$/;
+const MAX_VALUE_LENGTH = 200;
+const RESERVED_NAMES = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * ChannelVariableManager: 채널별 사용자 정의 변수(/var(이름))를 관리합니다.
+ * 오늘의 목표, 현재 랭크 등 카운터가 아닌 값을 저장하는 용도입니다.
+ */
+export class ChannelVariableManager {
+    private variables: { [name: string]: string } = {};
+    private onStateChangeCallback: () => void = () => {};
+
+    constructor(private bot: BotInstance, initialData?: { [name: string]: string }) {
+        // 내장 속성(constructor 등)이 변수로 읽히지 않도록 프로토타입 없는 객체에 보관
+        this.variables = Object.create(null);
+        for (const [name, value] of Object.entries(initialData || {})) {
+            if (this.isValidName(name)) this.variables[name] = String(value);
+        }
+    }
+
+    private isValidName(name: string): boolean {
+        return NAME_PATTERN.test(name) && !RESERVED_NAMES.includes(name);
+    }
+
+    private has(name: string): boolean {
+        return Object.prototype.hasOwnProperty.call(this.variables, name);
+    }
+
+    public setOnStateChangeListener(callback: () => void) {
+        this.onStateChangeCallback = callback;
+    }
+
+    private notify() {
+        this.onStateChangeCallback();
+        this.bot.saveAll();
+    }
+
+    public getVariables() { return this.variables; }
+
+    public get(name: string): string {
+        return this.has(name) ? this.variables[name] : '';
+    }
+
+    public setVariable(name: string, value: string): boolean {
+        const key = (name || '').trim();
+        if (!this.isValidName(key)) return false;
+
+        this.variables[key] = String(value ?? '').slice(0, MAX_VALUE_LENGTH);
+        this.notify();
+        return true;
+    }
+
+    public removeVariable(name: string): boolean {
+        if (!this.has(name)) return false;
+        delete this.variables[name];
+        this.notify();
+        return true;
+    }
+
+    /**
+     * !변수 이름 값 (설정, 매니저 전용) / !변수 이름 (조회)
+     */
+    public async handleCommand(chat: ChatEvent, chzzkChat: ChzzkChat) {
+        const match = chat.message.trim().match(/^\S+(?:\s+(\S+))?(?:\s+([\s\S]+))?$/);
+        const name = match?.[1];
+        const value = match?.[2];
+
+        if (!name) return chzzkChat.sendChat('💡 사용법: !변수 이름 값');
+
+        if (value === undefined) {
+            const current = this.get(name);
+            return chzzkChat.sendChat(current ? `📝 ${name}: ${current}` : `❌ ${name} 변수가 없습니다.`);
+        }
+
+        if (!isManager(chat)) return chzzkChat.sendChat('🛡️ 변수 설정 권한이 없습니다.');
+        if (!this.setVariable(name, value)) return chzzkChat.sendChat('⚠️ 변수 이름은 한글/영문/숫자/_ 30자 이내로 입력해주세요.');
+        return chzzkChat.sendChat(`✅ ${name} = ${this.get(name)}`);
+    }
+}
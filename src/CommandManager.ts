@@ -1,8 +1,18 @@
 import { ChzzkChat, ChatEvent } from 'chzzk';
 import { VariableProcessor } from './VariableProcessor';
 import { BotInstance } from './BotInstance';
+import { UserRole, hasRole, isManager, isUserRole } from './Permissions';
 
-export interface Command { 
+export type CommandMatchMode = 'exact' | 'contains' | 'startsWith' | 'regex';
+
+export interface CommandOptions {
+    matchMode: CommandMatchMode; // 트리거 비교 방식
+    globalCooldown: number; // 전체 쿨타임 (초)
+    userCooldown: number; // 유저별 쿨타임 (초)
+    minRole: UserRole; // 실행 가능한 최소 권한
+}
+
+export interface Command extends CommandOptions { 
     id?: string;
     triggers: string[]; 
     response: string; 
@@ -13,21 +23,128 @@ export interface Command {
     }; 
 }
 
+interface PatternMatcher {
+    command: Command;
+    test: (message: string) => RegExpMatchArray | null;
+}
+
+const MAX_PATTERN_LENGTH = 200;
+// 정규식 트리거는 메시지 앞부분만 검사 (역추적 비용이 입력 길이에 비례해 커지므로 짧게 유지)
+const MAX_REGEX_INPUT_LENGTH = 100;
+// 반복 수량자들의 최대 반복 수를 곱한 값의 상한 (무제한 수량자는 입력 길이로 계산)
+const MAX_REPETITION_COST = 10000;
+
+interface GroupFrame {
+    hasQuantifier: boolean; // 그룹 안(깊이 무관)에 수량자가 있음
+    hasAlternation: boolean; // 그룹 안(깊이 무관)에 | 가 있음
+}
+
+/**
+ * 정규식 구조를 훑어 지수/다항 시간 역추적이 가능한 형태를 거부합니다.
+ * - 수량자나 | 를 (깊이 무관) 포함한 그룹에 다시 수량자: (a+)+, ((a+))+, (a|a)*
+ * - 무제한 수량자(*, +, {n,})는 패턴 전체에서 하나만 허용: .*a.*b, a*a*
+ * - 범위 수량자까지 포함한 반복 비용이 MAX_REPETITION_COST 초과: .{0,50}.{0,50}.{0,50}
+ * - 역참조: \1, \k<name>
+ */
+function isSafePattern(pattern: string): boolean {
+    const stack: GroupFrame[] = [{ hasQuantifier: false, hasAlternation: false }];
+    let unboundedCount = 0;
+    let cost = 1;
+    let i = 0;
+
+    // pos 위치의 수량자를 읽음. 없으면 null (max가 Infinity면 무제한)
+    const readQuantifier = (pos: number): { length: number; max: number } | null => {
+        const ch = pattern[pos];
+        let length = 1;
+        let max: number;
+        if (ch === '*' || ch === '+') max = Infinity;
+        else if (ch === '?') max = 1;
+        else if (ch === '{') {
+            const m = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(pos));
+            if (!m) return null;
+            length = m[0].length;
+            max = m[2] === undefined ? parseInt(m[1]) : m[3] === '' ? Infinity : parseInt(m[3]);
+        } else return null;
+        if (pattern[pos + length] === '?') length++; // lazy 수량자
+        return { length, max };
+    };
+
+    // 요소(문자, 클래스, 그룹) 하나가 끝난 뒤 수량자 처리
+    const afterAtom = (isComplexGroup: boolean): boolean => {
+        const quantifier = readQuantifier(i);
+        if (!quantifier) return true;
+        if (isComplexGroup) return false;
+        if (quantifier.max === Infinity) unboundedCount++;
+        cost *= Math.min(quantifier.max, MAX_REGEX_INPUT_LENGTH) + 1;
+        if (unboundedCount > 1 || cost > MAX_REPETITION_COST) return false;
+        stack[stack.length - 1].hasQuantifier = true;
+        i += quantifier.length;
+        return true;
+    };
+
+    while (i < pattern.length) {
+        const ch = pattern[i];
+
+        if (ch === '\\') {
+            const next = pattern[i + 1];
+            if (next === undefined) return false;
+            if (/[1-9]/.test(next) || next === 'k') return false; // 역참조 금지
+            i += 2;
+            if (!afterAtom(false)) return false;
+        } else if (ch === '[') {
+            // 문자 클래스는 하나의 요소로 취급
+            let j = i + 1;
+            if (pattern[j] === '^') j++;
+            if (pattern[j] === ']') j++;
+            while (j < pattern.length && pattern[j] !== ']') j += pattern[j] === '\\' ? 2 : 1;
+            if (j >= pattern.length) return false;
+            i = j + 1;
+            if (!afterAtom(false)) return false;
+        } else if (ch === '(') {
+            const prefix = /^\((\?(:|=|!|<=|<!|<[A-Za-z_]\w*>))?/.exec(pattern.slice(i))![0];
+            i += prefix.length;
+            stack.push({ hasQuantifier: false, hasAlternation: false });
+        } else if (ch === ')') {
+            if (stack.length === 1) return false;
+            const group = stack.pop()!;
+            const parent = stack[stack.length - 1];
+            parent.hasQuantifier = parent.hasQuantifier || group.hasQuantifier;
+            parent.hasAlternation = parent.hasAlternation || group.hasAlternation;
+            i++;
+            if (!afterAtom(group.hasQuantifier || group.hasAlternation)) return false;
+        } else if (ch === '|') {
+            stack[stack.length - 1].hasAlternation = true;
+            i++;
+        } else if (readQuantifier(i) && ch !== '{') {
+            return false; // 대상 없는 수량자
+        } else {
+            i++;
+            if (!afterAtom(false)) return false;
+        }
+    }
+    return stack.length === 1;
+}
+
 /**
  * CommandManager: 커스텀 명령어의 생성, 삭제, 실행을 담당합니다.
- * 다양한 트리거 방식({any}, {editor} 등)을 지원합니다.
+ * 트리거 방식: 첫 단어 일치(exact), 포함(contains), 시작(startsWith), 정규식(regex)
  */
 export class CommandManager {
     private commands: Command[] = [];
     private variableProcessor: VariableProcessor;
     private onStateChangeCallback: () => void = () => {};
     private triggerCache: Set<string> = new Set();
+    private patternMatchers: PatternMatcher[] = [];
+    // 쿨타임 기록은 메모리에만 유지 (재시작 시 초기화)
+    private lastUsedGlobal: Map<string, number> = new Map();
+    private lastUsedByUser: Map<string, number> = new Map();
 
     constructor(private bot: BotInstance, initialCommands: any[]) {
         this.variableProcessor = new VariableProcessor(bot as any);
         this.commands = (initialCommands || []).map(c => ({
             ...c,
             triggers: Array.isArray(c.triggers) ? c.triggers : [c.trigger],
+            ...this.normalizeOptions(c),
             state: c.state || { totalCount: 0, userCounts: {} }
         }));
         this.rebuildTriggerCache();
@@ -39,31 +156,87 @@ export class CommandManager {
 
     private notify() {
         this.onStateChangeCallback();
+        // 상태 변경 시 즉시 저장 (비동기)
+        this.bot.saveAll();
     }
 
+    /**
+     * exact 트리거는 Set으로, 나머지 방식은 매처로 미리 컴파일해 둡니다.
+     */
     private rebuildTriggerCache() {
         this.triggerCache.clear();
+        this.patternMatchers = [];
         for (const cmd of this.commands) {
-            if (cmd.enabled) {
+            if (!cmd.enabled) continue;
+            if (cmd.matchMode === 'exact' || !cmd.matchMode) {
                 cmd.triggers.forEach(t => this.triggerCache.add(t));
+                continue;
+            }
+            for (const trigger of cmd.triggers) {
+                const test = this.compileMatcher(cmd.matchMode, trigger);
+                if (test) this.patternMatchers.push({ command: cmd, test });
             }
         }
     }
 
+    private compileMatcher(mode: CommandMatchMode, trigger: string): PatternMatcher['test'] | null {
+        if (mode === 'contains') return (msg) => msg.includes(trigger) ? [trigger] : null;
+        if (mode === 'startsWith') return (msg) => msg.startsWith(trigger) ? [trigger] : null;
+
+        const regex = this.compileSafeRegex(trigger);
+        if (!regex) {
+            console.warn(`[CommandManager] Rejected unsafe or invalid pattern: ${trigger}`);
+            return null;
+        }
+        return (msg) => msg.slice(0, MAX_REGEX_INPUT_LENGTH).match(regex);
+    }
+
+    /**
+     * 길이 제한 및 구조 검사(isSafePattern)로 ReDoS를 방지합니다.
+     * 매칭은 모든 채널이 공유하는 프로세스에서 동기로 실행되므로 의심스러운 패턴은 모두 거부합니다.
+     */
+    private compileSafeRegex(pattern: string): RegExp | null {
+        if (!pattern || pattern.length > MAX_PATTERN_LENGTH) return null;
+        if (!isSafePattern(pattern)) return null;
+        try {
+            return new RegExp(pattern, 'i');
+        } catch (e) {
+            return null;
+        }
+    }
+
+    private findMatch(message: string): { command: Command; match: RegExpMatchArray | null } | null {
+        const msg = message?.trim();
+        if (!msg) return null;
+
+        // 1. exact 빠른 경로
+        const firstWord = msg.split(/\s+/)[0];
+        if (this.triggerCache.has(firstWord)) {
+            const command = this.commands.find(c => c.enabled && (c.matchMode || 'exact') === 'exact' && c.triggers.includes(firstWord));
+            if (command) return { command, match: null };
+        }
+
+        // 2. 패턴 매칭
+        for (const matcher of this.patternMatchers) {
+            const match = matcher.test(msg);
+            if (match) return { command: matcher.command, match };
+        }
+        return null;
+    }
+
     /**
      * 특정 메시지가 명령어 트리거에 해당하는지 확인
      */
     public hasCommand(message: string): boolean {
-        if (!message) return false;
-        const firstWord = message.trim().split(' ')[0];
-        return this.triggerCache.has(firstWord);
+        return this.findMatch(message) !== null;
     }
 
     /**
      * 명령어 추가 (대시보드 요청)
      */
-    public addCommand(trigger: string, response: string): boolean {
-        const triggers = trigger.split('/').map(t => t.trim()).filter(Boolean);
+    public addCommand(trigger: string, response: string, options: Partial<CommandOptions> = {}): boolean {
+        const normalized = this.normalizeOptions(options);
+        const triggers = this.parseTriggers(trigger, normalized.matchMode);
         if (triggers.length === 0) return false;
 
         const newCmd: Command = {
@@ -71,6 +244,7 @@ export class CommandManager {
             triggers,
             response,
             enabled: true,
+            ...normalized,
             state: { totalCount: 0, userCounts: {} }
         };
 
@@ -80,6 +254,26 @@ export class CommandManager {
         return true;
     }
 
+    /**
+     * 명령어 수정 (통계는 유지)
+     */
+    public updateCommand(oldTrigger: string, trigger: string, response: string, options: Partial<CommandOptions> = {}): boolean {
+        const command = this.commands.find(c => c.triggers.includes(oldTrigger));
+        if (!command) return this.addCommand(trigger, response, options);
+
+        const normalized = this.normalizeOptions({ ...command, ...options });
+        const triggers = this.parseTriggers(trigger, normalized.matchMode);
+        if (triggers.length === 0) return false;
+
+        command.triggers = triggers;
+        command.response = response;
+        Object.assign(command, normalized);
+
+        this.rebuildTriggerCache();
+        this.notify();
+        return true;
+    }
+
     /**
      * 명령어 제거
      */
@@ -95,19 +289,93 @@ export class CommandManager {
         return false;
     }
 
+    public isManageCommand(word: string): boolean {
+        return ['!명령어추가', '!명령어수정', '!명령어삭제'].includes(word);
+    }
+
+    /**
+     * 채팅으로 명령어 관리 (스트리머/매니저 전용)
+     * 예) !명령어추가 !트리거 응답 / !명령어수정 !트리거 새응답 / !명령어삭제 !트리거
+     */
+    public async handleManageCommand(chat: ChatEvent, chzzkChat: ChzzkChat): Promise<void> {
+        if (!isManager(chat)) return chzzkChat.sendChat('🛡️ 명령어 관리 권한이 없습니다.');
+
+        const match = chat.message.trim().match(/^(\S+)(?:\s+(\S+))?(?:\s+([\s\S]+))?$/);
+        if (!match) return;
+        const [, action, trigger, response] = match;
+
+        if (action === '!명령어추가') {
+            if (!trigger || !response) return chzzkChat.sendChat('💡 사용법: !명령어추가 !트리거 응답');
+            if (this.findByTrigger(trigger)) return chzzkChat.sendChat(`⚠️ ${trigger} 명령어가 이미 존재합니다.`);
+            if (this.addCommand(trigger, response)) await chzzkChat.sendChat(`✅ ${trigger} 명령어가 추가되었습니다.`);
+        }
+        else if (action === '!명령어수정') {
+            if (!trigger || !response) return chzzkChat.sendChat('💡 사용법: !명령어수정 !트리거 새응답');
+            const command = this.findByTrigger(trigger);
+            if (!command) return chzzkChat.sendChat(`❌ ${trigger} 명령어를 찾을 수 없습니다.`);
+            this.updateCommand(trigger, command.triggers.join('/'), response);
+            await chzzkChat.sendChat(`✏️ ${trigger} 명령어가 수정되었습니다.`);
+        }
+        else if (action === '!명령어삭제') {
+            if (!trigger) return chzzkChat.sendChat('💡 사용법: !명령어삭제 !트리거');
+            if (this.removeCommand(trigger)) await chzzkChat.sendChat(`🗑️ ${trigger} 명령어가 삭제되었습니다.`);
+            else await chzzkChat.sendChat(`❌ ${trigger} 명령어를 찾을 수 없습니다.`);
+        }
+    }
+
+    private findByTrigger(trigger: string): Command | undefined {
+        return this.commands.find(c => c.triggers.includes(trigger));
+    }
+
     public getCommands(): Command[] {
         return this.commands;
     }
 
+    private parseTriggers(trigger: string, mode: CommandMatchMode = 'exact'): string[] {
+        // 정규식은 '/'를 포함할 수 있으므로 분리하지 않음
+        if (mode === 'regex') return trigger?.trim() ? [trigger.trim()] : [];
+        return (trigger || '').split('/').map(t => t.trim()).filter(Boolean);
+    }
+
+    private normalizeOptions(options: Partial<CommandOptions>): CommandOptions {
+        const matchMode = (['exact', 'contains', 'startsWith', 'regex'] as CommandMatchMode[]).includes(options.matchMode as CommandMatchMode) ? options.matchMode : 'exact';
+        return {
+            matchMode,
+            globalCooldown: Math.max(0, Number(options.globalCooldown) || 0),
+            userCooldown: Math.max(0, Number(options.userCooldown) || 0),
+            minRole: isUserRole(options.minRole) ? options.minRole : 'everyone'
+        };
+    }
+
+    /**
+     * 권한 및 쿨타임 체크 (통과 시 사용 시각 기록)
+     */
+    private canExecute(command: Command, chat: ChatEvent): boolean {
+        if (!hasRole(chat, command.minRole)) return false;
+
+        const key = command.id || command.triggers[0];
+        const userKey = `${key}:${chat.profile.userIdHash}`;
+        const now = Date.now();
+
+        if (now - (this.lastUsedGlobal.get(key) || 0) < command.globalCooldown * 1000) return false;
+        if (now - (this.lastUsedByUser.get(userKey) || 0) < command.userCooldown * 1000) return false;
+
+        this.lastUsedGlobal.set(key, now);
+        this.lastUsedByUser.set(userKey, now);
+        return true;
+    }
+
     /**
      * 명령어 실행
      */
     public async executeCommand(chat: ChatEvent, chzzkChat: ChzzkChat): Promise<void> {
         const msg = chat.message.trim();
-        const firstWord = msg.split(' ')[0];
+        const [firstWord, ...args] = msg.split(/\s+/);
 
-        const command = this.commands.find(c => c.enabled && c.triggers.includes(firstWord));
-        if (!command) return;
+        const found = this.findMatch(msg);
+        if (!found) return;
+        const { command, match } = found;
+        if (!this.canExecute(command, chat)) return;
 
         // 1. 통계 업데이트
         command.state.totalCount++;
@@ -118,7 +386,9 @@ export class CommandManager {
         try {
             const processedMsg = await this.variableProcessor.process(command.response, { 
                 chat, 
-                commandState: command.state 
+                commandState: command.state,
+                args,
+                match: match ? Array.from(match) : undefined
             });
             await chzzkChat.sendChat(processedMsg);
             this.notify();
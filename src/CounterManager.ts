@@ -2,6 +2,10 @@ import { ChzzkChat, ChatEvent } from 'chzzk';
 import { VariableProcessor } from './VariableProcessor';
 import { BotInstance } from './BotInstance';
 import { DataManager } from './DataManager';
+import { isManager } from './Permissions';
+import { getDateKey, getWeekStartKey } from './TimeUtils';
+
+export type CounterResetPeriod = 'none' | 'stream' | 'daily' | 'weekly';
 
 export interface Counter { 
     id?: string;
@@ -12,8 +16,13 @@ export interface Counter {
     count: number; // 전체 실행 횟수 (countall)
     userCounts: { [userIdHash: string]: number }; // 유저별 실행 횟수 (count)
     lastUsedDate: { [userIdHash: string]: string }; // 유저별 마지막 실행 날짜
+    nicknames: { [userIdHash: string]: string }; // 순위 표시용 닉네임
+    resetPeriod: CounterResetPeriod; // 자동 초기화 주기
+    resetKey: string; // 마지막 초기화 기준 (방송 시작 시각 / 날짜 / 주 시작일)
 }
 
+const RANKING_SIZE = 5;
+
 /**
  * CounterManager: 카운터의 실행 및 통계 저장을 담당합니다.
  */
@@ -28,7 +37,10 @@ export class CounterManager {
             ...c,
             count: c.count || 0,
             userCounts: c.userCounts || {},
-            lastUsedDate: c.lastUsedDate || {}
+            lastUsedDate: c.lastUsedDate || {},
+            nicknames: c.nicknames || {},
+            resetPeriod: c.resetPeriod || 'none',
+            resetKey: c.resetKey || ''
         }));
     }
 
@@ -49,10 +61,10 @@ export class CounterManager {
         return this.counters.some(c => c.enabled && c.trigger === msg);
     }
 
-    public addCounter(trigger: string, response: string, oncePerDay: boolean = false): boolean {
+    public addCounter(trigger: string, response: string, oncePerDay: boolean = false, resetPeriod: CounterResetPeriod = 'none'): boolean {
         if (this.counters.some(c => c.trigger === trigger)) return false;
         
-        this.counters.push({
+        const counter: Counter = {
             id: `cnt_${Date.now()}`,
             trigger,
             response,
@@ -60,12 +72,144 @@ export class CounterManager {
             oncePerDay,
             count: 0,
             userCounts: {},
-            lastUsedDate: {}
-        });
+            lastUsedDate: {},
+            nicknames: {},
+            resetPeriod: resetPeriod || 'none',
+            resetKey: ''
+        };
+        counter.resetKey = this.getResetKey(counter) || '';
+        this.counters.push(counter);
         this.notify();
         return true;
     }
 
+    public isManageCommand(word: string): boolean {
+        return ['!카운터추가', '!카운터조정'].includes(word);
+    }
+
+    /**
+     * 채팅으로 카운터 관리 (스트리머/매니저 전용)
+     * 예) !카운터추가 !트리거 응답 / !카운터조정 !트리거 +5 (-5, 10)
+     */
+    public async handleManageCommand(chat: ChatEvent, chzzkChat: ChzzkChat): Promise<void> {
+        if (!isManager(chat)) return chzzkChat.sendChat('🛡️ 카운터 관리 권한이 없습니다.');
+
+        const match = chat.message.trim().match(/^(\S+)(?:\s+(\S+))?(?:\s+([\s\S]+))?$/);
+        if (!match) return;
+        const [, action, trigger, rest] = match;
+
+        if (action === '!카운터추가') {
+            if (!trigger || !rest) return chzzkChat.sendChat('💡 사용법: !카운터추가 !트리거 응답');
+            if (this.addCounter(trigger, rest)) await chzzkChat.sendChat(`✅ ${trigger} 카운터가 추가되었습니다.`);
+            else await chzzkChat.sendChat(`⚠️ ${trigger} 카운터가 이미 존재합니다.`);
+        }
+        else if (action === '!카운터조정') {
+            const value = rest?.trim();
+            if (!trigger || !value || !/^[+-]?\d+$/.test(value)) return chzzkChat.sendChat('💡 사용법: !카운터조정 !트리거 +5 / -5 / 10');
+
+            const isRelative = value.startsWith('+') || value.startsWith('-');
+            const total = this.adjustCounter(trigger, isRelative ? 'add' : 'set', parseInt(value));
+            if (total === null) return chzzkChat.sendChat(`❌ ${trigger} 카운터를 찾을 수 없습니다.`);
+            await chzzkChat.sendChat(`🔢 ${trigger} 카운터: ${total}`);
+        }
+    }
+
+    /**
+     * 전체 카운트 수동 조정 (add: 증감, set: 지정). 조정된 값을 반환합니다.
+     */
+    public adjustCounter(trigger: string, mode: 'add' | 'set', value: number): number | null {
+        const counter = this.counters.find(c => c.trigger === trigger);
+        if (!counter || isNaN(value)) return null;
+
+        counter.count = Math.max(0, mode === 'add' ? counter.count + value : value);
+        this.notify();
+        return counter.count;
+    }
+
+    public updateResetPeriod(trigger: string, resetPeriod: CounterResetPeriod) {
+        const counter = this.counters.find(c => c.trigger === trigger);
+        if (!counter) return;
+
+        counter.resetPeriod = resetPeriod || 'none';
+        counter.resetKey = this.getResetKey(counter) || '';
+        this.notify();
+    }
+
+    public resetCounter(trigger: string) {
+        const counter = this.counters.find(c => c.trigger === trigger);
+        if (!counter) return;
+
+        this.clearCounts(counter);
+        this.notify();
+    }
+
+    private clearCounts(counter: Counter) {
+        counter.count = 0;
+        counter.userCounts = {};
+    }
+
+    /**
+     * 현재 초기화 주기의 기준값. 방송 기준인데 오프라인이면 null
+     */
+    private getResetKey(counter: Counter): string | null {
+        const timezone = this.bot.getTimezone();
+        switch (counter.resetPeriod) {
+            case 'stream':
+                return this.bot.liveDetail?.status === 'OPEN' ? this.bot.liveDetail.openDate || null : null;
+            case 'daily':
+                return getDateKey(timezone);
+            case 'weekly':
+                return getWeekStartKey(timezone); // 월요일 시작 기준
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * 주기가 바뀐 카운터를 초기화합니다. (라이브 정보 갱신 시 및 실행 직전에 호출)
+     */
+    public checkScheduledResets() {
+        let changed = false;
+        for (const counter of this.counters) {
+            if (!counter.resetPeriod || counter.resetPeriod === 'none') continue;
+            const key = this.getResetKey(counter);
+            if (!key || key === counter.resetKey) continue;
+
+            // 최초 설정 시에는 기준값만 기록
+            if (counter.resetKey) this.clearCounts(counter);
+            counter.resetKey = key;
+            changed = true;
+        }
+        if (changed) this.notify();
+    }
+
+    /**
+     * !카운터순위 !트리거 - 유저별 실행 횟수 상위 목록
+     */
+    public async handleRankingCommand(chat: ChatEvent, chzzkChat: ChzzkChat): Promise<void> {
+        const trigger = chat.message.trim().split(/\s+/)[1];
+        if (!trigger) return chzzkChat.sendChat('💡 사용법: !카운터순위 !트리거');
+
+        this.checkScheduledResets();
+        const ranking = this.getRanking(trigger, RANKING_SIZE);
+        if (!ranking) return chzzkChat.sendChat(`❌ ${trigger} 카운터를 찾을 수 없습니다.`);
+        if (ranking.length === 0) return chzzkChat.sendChat(`📊 ${trigger} 기록이 없습니다.`);
+
+        const list = ranking.map((r, i) => `${i + 1}. ${r.nickname}(${r.count})`).join(' / ');
+        return chzzkChat.sendChat(`🏆 ${trigger} 순위: ${list}`);
+    }
+
+    public getRanking(trigger: string, limit: number = RANKING_SIZE): { userIdHash: string; nickname: string; count: number }[] | null {
+        const counter = this.counters.find(c => c.trigger === trigger);
+        if (!counter) return null;
+
+        return Object.entries(counter.userCounts)
+            .filter(([, count]) => count > 0)
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, limit)
+            .map(([userIdHash, count]) => ({ userIdHash, nickname: counter.nicknames[userIdHash] || '익명', count }));
+    }
+
     public removeCounter(trigger: string) {
         this.counters = this.counters.filter(c => c.trigger !== trigger);
         this.notify();
@@ -76,11 +220,12 @@ export class CounterManager {
      */
     public async checkAndRespond(chat: ChatEvent, chzzkChat: ChzzkChat): Promise<void> {
         const msg = chat.message.trim();
-        const today = new Date().toISOString().split('T')[0];
+        const today = getDateKey(this.bot.getTimezone());
         const userId = chat.profile.userIdHash;
 
         const counter = this.counters.find(c => c.enabled && c.trigger === msg);
         if (!counter) return;
+        this.checkScheduledResets();
 
         // 하루 1회 제한 체크
         if (counter.oncePerDay) {
@@ -91,6 +236,7 @@ export class CounterManager {
         counter.count++; // 전체 카운트 증가
         counter.userCounts[userId] = (counter.userCounts[userId] || 0) + 1; // 개인 카운트 증가
         counter.lastUsedDate[userId] = today;
+        counter.nicknames[userId] = chat.profile.nickname;
 
         // 변수 처리 및 전송 (현재 카운터의 상태를 전달)
         try {
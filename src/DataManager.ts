@@ -1,18 +1,25 @@
 import { supabase } from "./supabase";
 import { defaultSettings } from "./SettingsManager";
 import { DonationEvent } from "chzzk";
+import { PointTransaction } from "./PointManager";
+import { SongHistoryEntry } from "./SongManager";
 
 export class DataManager {
     private static saveQueue: Map<string, any> = new Map();
     private static saveTimeouts: Map<string, NodeJS.Timeout> = new Map();
+    private static transactionQueue: Map<string, any[]> = new Map();
+    private static transactionTimeouts: Map<string, NodeJS.Timeout> = new Map();
 
     static async loadData(channelId: string): Promise<any> {
-        const [chan, cmds, macs, cnts, pts] = await Promise.all([
+        const [chan, cmds, macs, cnts, pts, rwds, songs, parts] = await Promise.all([
             supabase.from('channels').select('*').eq('channel_id', channelId).single(),
             supabase.from('commands').select('*').eq('channel_id', channelId),
             supabase.from('macros').select('*').eq('channel_id', channelId),
             supabase.from('counters').select('*').eq('channel_id', channelId),
-            supabase.from('points').select('*').eq('channel_id', channelId)
+            supabase.from('points').select('*').eq('channel_id', channelId),
+            supabase.from('rewards').select('*').eq('channel_id', channelId),
+            supabase.from('song_history').select('*').eq('channel_id', channelId).order('ended_at', { ascending: false }).limit(20),
+            supabase.from('participation_history').select('user_id_hash, nickname, count').eq('channel_id', channelId)
         ]);
 
         if (!chan.data) {
@@ -26,10 +33,17 @@ export class DataManager {
             greetData: { settings: db.greet_settings || { enabled: true, type: 1, message: "반갑습니다!" }, history: db.greet_history || {} },
             songQueue: db.song_queue || [],
             currentSong: db.current_song || null,
+            songBlocklist: db.song_blocklist || { videoIds: [], channels: [], keywords: [] },
+            songFallback: db.song_fallback || null,
+            songHistory: (songs.data || []).map(h => this.toSongHistoryEntry(h)),
             participants: db.participation_data || { queue: [], active: [], isActive: false, max: 10 },
-            commands: (cmds.data || []).map(c => ({ id: c.id, triggers: c.triggers || [c.trigger], response: c.response, enabled: c.enabled })),
+            participationCounts: (parts.data || []).reduce((acc: any, p: any) => { if (p.user_id_hash) acc[p.user_id_hash] = { nickname: p.nickname, count: p.count || 0 }; return acc; }, {}),
+            customVariables: db.custom_variables || {},
+            redemptions: db.reward_redemptions || [],
+            rewards: (rwds.data || []).map(r => ({ id: r.reward_key, name: r.name, cost: r.cost, stock: r.stock, perUserLimit: r.per_user_limit, cooldown: r.cooldown_seconds, autoApprove: r.auto_approve, action: r.action, enabled: r.enabled, redeemedBy: r.redeemed_by || {} })),
+            commands: (cmds.data || []).map(c => ({ id: c.id, triggers: c.triggers || [c.trigger], response: c.response, enabled: c.enabled, matchMode: c.match_mode || 'exact', globalCooldown: c.global_cooldown || 0, userCooldown: c.user_cooldown || 0, minRole: c.min_role || 'everyone' })),
             macros: (macs.data || []).map(m => ({ id: m.id, title: m.title, message: m.message, interval: m.interval_minutes, enabled: m.enabled })),
-            counters: (cnts.data || []).map(c => ({ trigger: c.trigger, response: c.response, enabled: c.enabled, oncePerDay: c.once_per_day, count: c.count })),
+            counters: (cnts.data || []).map(c => ({ trigger: c.trigger, response: c.response, enabled: c.enabled, oncePerDay: c.once_per_day, count: c.count, userCounts: c.user_counts || {}, lastUsedDate: c.last_used_date || {}, nicknames: c.nicknames || {}, resetPeriod: c.reset_period || 'none', resetKey: c.reset_key || '' })),
             points: (pts.data || []).reduce((acc: any, p: any) => { acc[p.user_id_hash] = { nickname: p.nickname, points: p.amount, lastMessageTime: p.last_chat_at ? new Date(p.last_chat_at).getTime() : 0 }; return acc; }, {})
         };
     }
@@ -53,14 +67,19 @@ export class DataManager {
                 greet_history: data.greetData.history,
                 song_queue: data.songQueue,
                 current_song: data.currentSong,
+                song_blocklist: data.songBlocklist,
+                song_fallback: data.songFallback,
                 participation_data: data.participants,
+                custom_variables: data.customVariables || {},
+                reward_redemptions: data.redemptions || [],
                 updated_at: new Date().toISOString()
             }).eq('channel_id', channelId);
 
             await Promise.all([
-                this.syncTable(channelId, 'commands', data.commands.map((i: any) => ({ channel_id: channelId, triggers: i.triggers || [i.trigger], response: i.response, enabled: i.enabled }))),
+                this.syncTable(channelId, 'commands', data.commands.map((i: any) => ({ channel_id: channelId, triggers: i.triggers || [i.trigger], response: i.response, enabled: i.enabled, match_mode: i.matchMode || 'exact', global_cooldown: i.globalCooldown || 0, user_cooldown: i.userCooldown || 0, min_role: i.minRole || 'everyone' }))),
                 this.syncTable(channelId, 'macros', data.macros.map((i: any) => ({ channel_id: channelId, title: i.title, message: i.message, interval_minutes: i.interval, enabled: i.enabled }))),
-                this.syncTable(channelId, 'counters', data.counters.map((i: any) => ({ channel_id: channelId, trigger: i.trigger, response: i.response, count: i.count || 0, enabled: i.enabled, once_per_day: i.oncePerDay }))),
+                this.syncTable(channelId, 'counters', data.counters.map((i: any) => ({ channel_id: channelId, trigger: i.trigger, response: i.response, count: i.count || 0, enabled: i.enabled, once_per_day: i.oncePerDay, user_counts: i.userCounts || {}, last_used_date: i.lastUsedDate || {}, nicknames: i.nicknames || {}, reset_period: i.resetPeriod || 'none', reset_key: i.resetKey || '' }))),
+                this.syncTable(channelId, 'rewards', (data.rewards || []).map((i: any) => ({ channel_id: channelId, reward_key: i.id, name: i.name, cost: i.cost, stock: i.stock, per_user_limit: i.perUserLimit, cooldown_seconds: i.cooldown, auto_approve: i.autoApprove, action: i.action, enabled: i.enabled, redeemed_by: i.redeemedBy || {} }))),
                 this.syncPoints(channelId, data.points)
             ]);
         } catch (e) { }
@@ -78,6 +97,19 @@ export class DataManager {
         await supabase.from('points').upsert(payload, { onConflict: 'channel_id,user_id_hash' });
     }
 
+    // 참여 횟수 기록 (집계는 메모리에서 하고 누적값을 그대로 upsert)
+    static async recordParticipation(channelId: string, userIdHash: string, nickname: string, count: number) {
+        try {
+            const { error } = await supabase.from('participation_history').upsert(
+                { channel_id: channelId, user_id_hash: userIdHash, nickname, count, last_played_at: new Date().toISOString() },
+                { onConflict: 'channel_id,user_id_hash' }
+            );
+            if (error) console.error('[DataManager] Failed to record participation:', error);
+        } catch (e) {
+            console.error('[DataManager] Failed to record participation:', e);
+        }
+    }
+
     static async loadParticipationHistory(channelId: string) {
         const { data } = await supabase.from('participation_history').select('nickname, count').eq('channel_id', channelId).order('count', { ascending: false }).limit(10);
         return data || [];
@@ -97,5 +129,161 @@ export class DataManager {
             console.error('[DataManager] Failed to log donation:', e);
         }
     }
-    private static getDefault(channelId: string) { return { settings: defaultSettings, greetData: { settings: { enabled: true, type: 1, message: "반갑습니다!" }, history: {} }, songQueue: [], currentSong: null, participants: { queue: [], active: [], isActive: false, max: 10 }, commands: [], macros: [], counters: [], points: {} }; }
+    // 포인트 거래 기록: 채팅 적립처럼 잦은 기록은 모아서 한 번에 insert
+    static logPointTransaction(channelId: string, tx: PointTransaction) {
+        const queue = this.transactionQueue.get(channelId) || [];
+        queue.push({
+            channel_id: channelId,
+            user_id_hash: tx.userIdHash,
+            nickname: tx.nickname,
+            delta: tx.delta,
+            balance: tx.balance,
+            reason: tx.reason,
+            source: tx.source,
+            actor: tx.actor,
+            created_at: new Date(tx.createdAt).toISOString()
+        });
+        this.transactionQueue.set(channelId, queue);
+
+        if (this.transactionTimeouts.has(channelId)) return;
+        this.transactionTimeouts.set(channelId, setTimeout(() => this.flushPointTransactions(channelId), 2000));
+    }
+
+    static async flushPointTransactions(channelId: string) {
+        const timeout = this.transactionTimeouts.get(channelId);
+        if (timeout) clearTimeout(timeout);
+        this.transactionTimeouts.delete(channelId);
+
+        const rows = this.transactionQueue.get(channelId) || [];
+        this.transactionQueue.delete(channelId);
+        if (!rows.length) return;
+        try {
+            const { error } = await supabase.from('point_transactions').insert(rows);
+            if (error) console.error('[DataManager] Failed to log point transactions:', error);
+        } catch (e) {
+            console.error('[DataManager] Failed to log point transactions:', e);
+        }
+    }
+
+    static async loadPointTransactions(channelId: string, userIdHash: string, page: number = 1, pageSize: number = 20) {
+        await this.flushPointTransactions(channelId);
+        const safePage = Math.max(1, page || 1);
+        const safeSize = Math.min(100, Math.max(1, pageSize || 20));
+        const from = (safePage - 1) * safeSize;
+
+        const { data, count } = await supabase.from('point_transactions').select('*', { count: 'exact' })
+            .eq('channel_id', channelId).eq('user_id_hash', userIdHash)
+            .order('created_at', { ascending: false }).range(from, from + safeSize - 1);
+
+        return {
+            userIdHash,
+            page: safePage,
+            pageSize: safeSize,
+            total: count || 0,
+            items: (data || []).map((t: any) => ({ nickname: t.nickname, delta: t.delta, balance: t.balance, reason: t.reason, source: t.source, actor: t.actor, createdAt: new Date(t.created_at).getTime() }))
+        };
+    }
+
+    // 포인트 시즌 아카이브 (최종 순위 스냅샷)
+    static async archivePointSeason(channelId: string, season: { name: string; decayPercent: number; rankings: { userIdHash: string; nickname: string; points: number }[] }): Promise<boolean> {
+        try {
+            const { data: last } = await supabase.from('point_seasons').select('ended_at').eq('channel_id', channelId).order('ended_at', { ascending: false }).limit(1);
+            const { error } = await supabase.from('point_seasons').insert({
+                channel_id: channelId,
+                name: season.name,
+                started_at: last?.[0]?.ended_at || null,
+                ended_at: new Date().toISOString(),
+                decay_percent: season.decayPercent,
+                rankings: season.rankings
+            });
+            if (error) throw error;
+            return true;
+        } catch (e) {
+            console.error('[DataManager] Failed to archive point season:', e);
+            return false;
+        }
+    }
+
+    static async loadPointSeasons(channelId: string) {
+        const { data } = await supabase.from('point_seasons').select('*').eq('channel_id', channelId).order('ended_at', { ascending: false });
+        return (data || []).map((s: any) => ({
+            id: s.id,
+            name: s.name,
+            startedAt: s.started_at ? new Date(s.started_at).getTime() : null,
+            endedAt: new Date(s.ended_at).getTime(),
+            decayPercent: s.decay_percent,
+            participantCount: (s.rankings || []).length,
+            rankings: s.rankings || []
+        }));
+    }
+
+    // 신청곡 재생 기록
+    static async logSongHistory(channelId: string, entry: SongHistoryEntry) {
+        try {
+            const { error } = await supabase.from('song_history').insert({
+                channel_id: channelId,
+                video_id: entry.videoId,
+                title: entry.title,
+                requester: entry.requester,
+                requester_id: entry.requesterId || null,
+                started_at: entry.startedAt ? new Date(entry.startedAt).toISOString() : null,
+                ended_at: new Date(entry.endedAt).toISOString(),
+                skipped: entry.skipped,
+                live_id: entry.liveId
+            });
+            if (error) console.error('[DataManager] Failed to log song history:', error);
+        } catch (e) {
+            console.error('[DataManager] Failed to log song history:', e);
+        }
+    }
+
+    private static toSongHistoryEntry(h: any): SongHistoryEntry {
+        return {
+            videoId: h.video_id,
+            title: h.title,
+            requester: h.requester,
+            requesterId: h.requester_id || undefined,
+            startedAt: h.started_at ? new Date(h.started_at).getTime() : null,
+            endedAt: new Date(h.ended_at).getTime(),
+            skipped: !!h.skipped,
+            liveId: h.live_id ?? null
+        };
+    }
+
+    /**
+     * 신청곡 통계: 방송(liveId) 또는 기간(from~to) 기준 인기곡과 신청자 순위
+     */
+    // from/to는 검증된 타임스탬프(ms)
+    static async loadSongStats(channelId: string, filter: { liveId?: number; from?: number; to?: number; limit?: number }) {
+        let query = supabase.from('song_history').select('*').eq('channel_id', channelId);
+        if (filter.liveId) query = query.eq('live_id', filter.liveId);
+        if (filter.from !== undefined) query = query.gte('ended_at', new Date(filter.from).toISOString());
+        if (filter.to !== undefined) query = query.lte('ended_at', new Date(filter.to).toISOString());
+        const { data } = await query.order('ended_at', { ascending: false }).limit(5000);
+
+        const entries = (data || []).map(h => this.toSongHistoryEntry(h));
+        const limit = Math.min(50, Math.max(1, filter.limit || 10));
+        const songs = new Map<string, { videoId: string; title: string; count: number }>();
+        const requesters = new Map<string, { requester: string; count: number }>();
+        for (const e of entries) {
+            const song = songs.get(e.videoId) || { videoId: e.videoId, title: e.title, count: 0 };
+            song.count++;
+            songs.set(e.videoId, song);
+
+            const key = e.requesterId || e.requester;
+            const req = requesters.get(key) || { requester: e.requester, count: 0 };
+            req.count++;
+            requesters.set(key, req);
+        }
+
+        return {
+            totalPlayed: entries.length,
+            skippedCount: entries.filter(e => e.skipped).length,
+            topSongs: [...songs.values()].sort((a, b) => b.count - a.count).slice(0, limit),
+            topRequesters: [...requesters.values()].sort((a, b) => b.count - a.count).slice(0, limit),
+            recent: entries.slice(0, limit)
+        };
+    }
+
+    private static getDefault(channelId: string) { return { settings: defaultSettings, greetData: { settings: { enabled: true, type: 1, message: "반갑습니다!" }, history: {} }, songQueue: [], currentSong: null, songBlocklist: { videoIds: [], channels: [], keywords: [] }, songHistory: [], songFallback: null, participants: { queue: [], active: [], isActive: false, max: 10 }, participationCounts: {}, customVariables: {}, rewards: [], redemptions: [], commands: [], macros: [], counters: [], points: {} }; }
 }
\ No newline at end of file
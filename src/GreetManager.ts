@@ -1,6 +1,7 @@
 import { ChatEvent, ChzzkChat } from 'chzzk';
 import { BotInstance } from './BotInstance';
 import { VariableProcessor } from './VariableProcessor';
+import { getDateKey } from './TimeUtils';
 
 export interface GreetSettings {
     enabled: boolean;
@@ -45,7 +46,7 @@ export class GreetManager {
         if (!this.settings.enabled) return;
 
         const userId = chat.profile.userIdHash;
-        const today = new Date().toISOString().split('T')[0];
+        const today = getDateKey(this.bot.getTimezone());
         const lastGreeted = this.history[userId];
 
         let shouldGreet = false;
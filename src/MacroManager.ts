@@ -1,5 +1,6 @@
 import { ChzzkChat } from 'chzzk';
 import { BotInstance } from './BotInstance';
+import { VariableProcessor } from './VariableProcessor';
 
 export interface Macro {
     id: string;
@@ -14,8 +15,10 @@ export class MacroManager {
     private timers: Map<string, NodeJS.Timeout> = new Map();
     private chatClient: ChzzkChat | null = null;
     private onStateChangeCallback: () => void = () => {};
+    private variableProcessor: VariableProcessor;
 
     constructor(private bot: BotInstance, initialMacros: any[]) {
+        this.variableProcessor = new VariableProcessor(bot);
         this.macros = (initialMacros || []).map(m => ({
             ...m,
             title: m.title || '매크로' // 기존 데이터 호환
@@ -66,9 +69,14 @@ export class MacroManager {
         if (!macro.enabled || !this.chatClient) return;
         this.stopMacro(macro.id);
 
-        const timer = setInterval(() => {
+        const timer = setInterval(async () => {
             if (this.chatClient?.connected) {
-                this.chatClient.sendChat(macro.message);
+                try {
+                    const message = await this.variableProcessor.process(macro.message, {});
+                    if (message) this.chatClient.sendChat(message);
+                } catch (err) {
+                    console.error('[MacroManager] Error:', err);
+                }
             }
         }, macro.interval * 60 * 1000);
 
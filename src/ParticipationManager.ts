@@ -1,26 +1,39 @@
 import { ChatEvent, ChzzkChat } from 'chzzk';
 import { BotInstance } from './BotInstance';
+import { DataManager } from './DataManager';
+import { getUserRole, isManager } from './Permissions';
+import { ParticipationMessages } from './SettingsManager';
+import { VariableProcessor } from './VariableProcessor';
 
 export interface Participant {
     userIdHash: string;
     nickname: string;
     joinedAt: number;
+    isSubscriber?: boolean; // 구독자 이상 (fair 모드 우선순위용)
+    gameId?: string; // 초대용 게임 닉네임
 }
 
+const MAX_GAME_ID_LENGTH = 30;
+
 export class ParticipationManager {
     private queue: Participant[] = [];
     private activeParticipants: Participant[] = [];
     private isActive: boolean = false;
     private maxParticipants: number = 10;
     private onStateChangeCallback: () => void = () => {};
+    private variableProcessor: VariableProcessor;
+    private playCounts: { [userIdHash: string]: { nickname: string; count: number } } = {}; // 누적 참여 횟수
 
-    constructor(private bot: BotInstance, initialData?: any) {
+    constructor(private bot: BotInstance, initialData?: any, initialCounts?: { [userIdHash: string]: { nickname: string; count: number } }) {
+        this.variableProcessor = new VariableProcessor(bot);
         if (initialData) {
+            // 저장은 getState() 형태로 되므로 두 키 모두 허용
             this.queue = initialData.queue || [];
-            this.activeParticipants = initialData.active || [];
-            this.isActive = initialData.isActive || false;
-            this.maxParticipants = initialData.max || 10;
+            this.activeParticipants = initialData.active || initialData.participants || [];
+            this.isActive = initialData.isActive ?? initialData.isParticipationActive ?? false;
+            this.maxParticipants = initialData.max || initialData.maxParticipants || 10;
         }
+        this.playCounts = initialCounts || {};
     }
 
     public setOnStateChangeListener(callback: () => void) {
@@ -34,23 +47,33 @@ export class ParticipationManager {
 
     public getState() {
         return {
-            queue: this.queue,
+            queue: this.getOrderedQueue(),
             participants: this.activeParticipants,
             isParticipationActive: this.isActive,
             maxParticipants: this.maxParticipants
         };
     }
 
+    /**
+     * 채널 설정의 응답 템플릿을 변수 처리해 전송 (빈 템플릿이면 전송하지 않음)
+     */
+    private async reply(chzzkChat: ChzzkChat | null | undefined, key: keyof ParticipationMessages, chat?: ChatEvent, args?: string[]) {
+        if (!chzzkChat) return;
+        const template = this.bot.settings.getSettings().participationMessages?.[key] || '';
+        const text = await this.variableProcessor.process(template, { chat, args });
+        if (text.trim()) chzzkChat.sendChat(text);
+    }
+
     public startParticipation() { 
         this.isActive = true; 
         this.notify();
-        if (this.bot.chat) this.bot.chat.sendChat('📢 시청자 참여 모집이 시작되었습니다! (!시참 참여)');
+        this.reply(this.bot.chat, 'started');
     }
 
     public stopParticipation() { 
         this.isActive = false; 
         this.notify();
-        if (this.bot.chat) this.bot.chat.sendChat('⛔ 시청자 참여 모집이 마감되었습니다.');
+        this.reply(this.bot.chat, 'stopped');
     }
 
     public updateMax(count: number) { 
@@ -59,55 +82,186 @@ export class ParticipationManager {
     }
 
     public async handleCommand(chat: ChatEvent, chzzkChat: ChzzkChat) {
-        // [수정] 접두사를 '!시참'으로 완전히 고정
-        const prefix = '!시참';
-        const msg = chat.message.trim();
+        const settings = this.bot.settings.getSettings();
+        const prefix = settings.participationCommand || '!시참';
+        const words = settings.participationWords;
+        const [cmd, subCmd, ...rest] = chat.message.trim().split(/\s+/);
+        if (cmd !== prefix) return;
 
         // 1. 안내 메시지
-        if (msg === prefix) {
-            return chzzkChat.sendChat(
-                `📢 [시참 안내] '!시참 참여' - 등록 / '!시참 현황' - 인원 / '!시참 대기열' - 순서`
-            );
-        }
+        if (!subCmd) return this.reply(chzzkChat, 'help', chat);
 
         // 2. 참여 신청
-        if (msg === `${prefix} 참여`) {
-            if (!this.isActive) return chzzkChat.sendChat('⛔ 현재는 모집 중이 아닙니다.');
+        if (subCmd === words.join) {
+            if (!this.isActive) return this.reply(chzzkChat, 'notActive', chat);
             
             const userId = chat.profile.userIdHash;
-            if (this.queue.some(p => p.userIdHash === userId) || this.activeParticipants.some(p => p.userIdHash === userId)) {
-                return chzzkChat.sendChat(`⚠️ ${chat.profile.nickname}님은 이미 등록되어 있습니다.`);
+            const gameId = rest.join(' ').slice(0, MAX_GAME_ID_LENGTH);
+            const existing = this.findUser(userId);
+            if (existing) {
+                // 이미 등록된 경우 게임 닉네임만 갱신
+                if (gameId && existing.gameId !== gameId) {
+                    existing.gameId = gameId;
+                    this.notify();
+                    return this.reply(chzzkChat, 'gameIdUpdated', chat, [gameId]);
+                }
+                return this.reply(chzzkChat, 'alreadyJoined', chat);
             }
 
-            if (this.activeParticipants.length >= this.maxParticipants) {
-                return chzzkChat.sendChat(`❌ 정원이 가득 찼습니다. (${this.activeParticipants.length}/${this.maxParticipants})`);
+            // 정원은 참여자로 이동할 때만 제한하고, 대기열은 별도 한도(0이면 무제한)로 제한
+            const queueLimit = settings.participationQueueLimit || 0;
+            if (queueLimit > 0 && this.queue.length >= queueLimit) {
+                return this.reply(chzzkChat, 'queueFull', chat);
             }
 
-            this.queue.push({ userIdHash: userId, nickname: chat.profile.nickname, joinedAt: Date.now() });
+            this.queue.push({ userIdHash: userId, nickname: chat.profile.nickname, joinedAt: Date.now(), isSubscriber: getUserRole(chat) !== 'everyone', gameId: gameId || undefined });
             this.notify();
-            return chzzkChat.sendChat(`✅ ${chat.profile.nickname}님, 대기열에 등록되었습니다!`);
+            return this.reply(chzzkChat, 'joined', chat);
         }
 
         // 3. 기타 명령어
-        if (msg === `${prefix} 현황`) {
-            return chzzkChat.sendChat(`👥 현재 참여: ${this.activeParticipants.length}/${this.maxParticipants}명 | 대기: ${this.queue.length}명`);
+        if (subCmd === words.status) return this.reply(chzzkChat, 'status', chat);
+        if (subCmd === words.list) {
+            return this.reply(chzzkChat, this.queue.length === 0 ? 'listEmpty' : 'list', chat);
+        }
+        if (subCmd === words.cancel) {
+            if (!this.cancel(chat.profile.userIdHash)) return this.reply(chzzkChat, 'notInQueue', chat);
+            return this.reply(chzzkChat, 'cancelled', chat);
         }
-        if (msg === `${prefix} 대기열`) {
-            if (this.queue.length === 0) return chzzkChat.sendChat('📜 대기자가 없습니다.');
-            const list = this.queue.slice(0, 5).map((p, i) => `${i+1}. ${p.nickname}`).join(', ');
-            return chzzkChat.sendChat(`📜 대기열: ${list} ${this.queue.length > 5 ? '...' : ''}`);
+        if (subCmd === words.position) {
+            if (!this.queue.some(p => p.userIdHash === chat.profile.userIdHash)) return this.reply(chzzkChat, 'notInQueue', chat);
+            return this.reply(chzzkChat, 'position', chat);
         }
+
+        // 4. 매니저 명령어 (뽑기 [인원] / 제외 닉네임 / 순서 닉네임 위치)
+        if (![words.pull, words.kick, words.move].includes(subCmd)) return;
+        if (!isManager(chat)) return this.reply(chzzkChat, 'noPermission', chat);
+
+        if (subCmd === words.pull) {
+            const picked = this.pullNext(Math.max(1, parseInt(rest[0]) || 1));
+            if (picked.length === 0) {
+                return this.reply(chzzkChat, this.activeParticipants.length >= this.maxParticipants ? 'full' : 'listEmpty', chat);
+            }
+            return this.reply(chzzkChat, 'pulled', chat, [picked.map(p => p.gameId ? `${p.nickname}(${p.gameId})` : p.nickname).join(', ')]);
+        }
+
+        const nickname = (rest[0] || '').replace(/^@/, '');
+        const target = this.findByNickname(nickname);
+        if (!target) return this.reply(chzzkChat, 'userNotFound', chat, [nickname]);
+
+        if (subCmd === words.kick) {
+            this.removeUser(target.userIdHash);
+            return this.reply(chzzkChat, 'kicked', chat, [target.nickname]);
+        }
+        if (subCmd === words.move) {
+            if (settings.participationOrderMode === 'fair') return this.reply(chzzkChat, 'moveUnavailable', chat);
+            const position = parseInt(rest[1]);
+            if (!this.reorder(target.userIdHash, position)) return this.reply(chzzkChat, 'userNotFound', chat, [target.nickname]);
+            return this.reply(chzzkChat, 'moved', chat, [target.nickname, String(Math.min(position, this.queue.length))]);
+        }
+    }
+
+    private findUser(userIdHash: string): Participant | undefined {
+        return this.queue.find(p => p.userIdHash === userIdHash) || this.activeParticipants.find(p => p.userIdHash === userIdHash);
+    }
+
+    private findByNickname(nickname: string): Participant | undefined {
+        if (!nickname) return undefined;
+        return this.queue.find(p => p.nickname === nickname) || this.activeParticipants.find(p => p.nickname === nickname);
+    }
+
+    /**
+     * 본인 신청 취소 (대기열에서만 빠짐)
+     */
+    public cancel(userIdHash: string): boolean {
+        const index = this.queue.findIndex(p => p.userIdHash === userIdHash);
+        if (index === -1) return false;
+        this.queue.splice(index, 1);
+        this.notify();
+        return true;
+    }
+
+    /**
+     * 대기 순서대로 남은 정원만큼 참여자로 이동
+     */
+    public pullNext(count: number): Participant[] {
+        const slots = Math.max(0, this.maxParticipants - this.activeParticipants.length);
+        const picked = this.getOrderedQueue().slice(0, Math.min(count, slots));
+        if (picked.length === 0) return [];
+
+        const pickedIds = new Set(picked.map(p => p.userIdHash));
+        this.queue = this.queue.filter(p => !pickedIds.has(p.userIdHash));
+        this.activeParticipants.push(...picked);
+        picked.forEach(p => this.recordPlay(p));
+        this.notify();
+        return picked;
+    }
+
+    /**
+     * 대기열 순서 변경 (position은 1부터, 범위를 넘으면 맨 뒤)
+     */
+    public reorder(userIdHash: string, position: number): boolean {
+        const index = this.queue.findIndex(p => p.userIdHash === userIdHash);
+        if (index === -1 || isNaN(position)) return false;
+        const [p] = this.queue.splice(index, 1);
+        this.queue.splice(Math.max(0, position - 1), 0, p);
+        this.notify();
+        return true;
     }
 
     public moveToParticipants(userIdHash: string) {
+        if (this.activeParticipants.length >= this.maxParticipants) return;
         const index = this.queue.findIndex(p => p.userIdHash === userIdHash);
         if (index > -1) {
             const p = this.queue.splice(index, 1)[0];
             this.activeParticipants.push(p);
+            this.recordPlay(p);
             this.notify();
         }
     }
 
+    /**
+     * 대기 순서. fair 모드에서는 참여 횟수가 적은 순 → 구독자 → 신청 순으로 정렬합니다.
+     */
+    private getOrderedQueue(): Participant[] {
+        if (this.bot.settings?.getSettings().participationOrderMode !== 'fair') return this.queue;
+        return [...this.queue].sort((a, b) =>
+            this.getPlayCount(a.userIdHash) - this.getPlayCount(b.userIdHash)
+            || Number(!!b.isSubscriber) - Number(!!a.isSubscriber)
+            || a.joinedAt - b.joinedAt
+        );
+    }
+
+    public getPlayCount(userIdHash: string): number {
+        return this.playCounts[userIdHash]?.count || 0;
+    }
+
+    private recordPlay(p: Participant) {
+        const count = this.getPlayCount(p.userIdHash) + 1;
+        this.playCounts[p.userIdHash] = { nickname: p.nickname, count };
+        DataManager.recordParticipation(this.bot.getChannelId(), p.userIdHash, p.nickname, count);
+    }
+
+    public getRanking(limit: number = 10) {
+        return Object.values(this.playCounts).sort((a, b) => b.count - a.count).slice(0, limit);
+    }
+
+    /**
+     * 다음 라운드: 현재 참여자를 내보내고 대기 순서대로 다음 인원을 불러옵니다.
+     */
+    public nextRound(): Participant[] {
+        const roundSize = this.bot.settings.getSettings().participationRoundSize || this.maxParticipants;
+        const picked = this.getOrderedQueue().slice(0, Math.min(roundSize, this.maxParticipants));
+        const pickedIds = new Set(picked.map(p => p.userIdHash));
+
+        this.queue = this.queue.filter(p => !pickedIds.has(p.userIdHash));
+        this.activeParticipants = picked;
+        picked.forEach(p => this.recordPlay(p));
+        this.notify();
+        if (picked.length > 0) this.reply(this.bot.chat, 'nextRound');
+        return picked;
+    }
+
     public removeUser(userIdHash: string) {
         this.queue = this.queue.filter(p => p.userIdHash !== userIdHash);
         this.activeParticipants = this.activeParticipants.filter(p => p.userIdHash !== userIdHash);
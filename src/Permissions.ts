@@ -0,0 +1,34 @@
+import { ChatEvent } from 'chzzk';
+
+export type UserRole = 'everyone' | 'subscriber' | 'manager' | 'streamer';
+
+const ROLE_LEVELS: Record<UserRole, number> = { everyone: 0, subscriber: 1, manager: 2, streamer: 3 };
+
+export function isUserRole(value: any): value is UserRole {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ROLE_LEVELS, value);
+}
+
+/**
+ * 채팅 작성자의 권한 등급을 판별합니다.
+ * (스트리머 > 매니저 > 구독자 > 일반)
+ */
+export function getUserRole(chat: ChatEvent): UserRole {
+    const roleCode = chat.profile.userRoleCode;
+    if (roleCode === 'streamer') return 'streamer';
+    if (roleCode === 'manager' || roleCode === 'streaming_chat_manager' || roleCode === 'streaming_channel_manager') return 'manager';
+    if (chat.profile.badge?.imageUrl?.includes('manager')) return 'manager';
+
+    // 구독 정보는 profile 또는 extras 쪽에 실려 올 수 있음
+    const subscription = chat.profile.streamingProperty?.subscription || (chat.extras as any)?.streamingProperty?.subscription;
+    if (subscription) return 'subscriber';
+
+    return 'everyone';
+}
+
+export function hasRole(chat: ChatEvent, minRole: UserRole = 'everyone'): boolean {
+    return ROLE_LEVELS[getUserRole(chat)] >= (ROLE_LEVELS[minRole] ?? 0);
+}
+
+export function isManager(chat: ChatEvent): boolean {
+    return hasRole(chat, 'manager');
+}
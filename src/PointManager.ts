@@ -1,5 +1,6 @@
-import { ChatEvent } from 'chzzk';
+import { ChatEvent, DonationEvent } from 'chzzk';
 import { BotSettings } from './SettingsManager';
+import { UserRole, getUserRole } from './Permissions';
 
 export interface UserPoint {
     nickname: string;
@@ -7,9 +8,42 @@ export interface UserPoint {
     lastMessageTime: number;
 }
 
+export type PointSource = 'chat' | 'watch' | 'donation' | 'gift' | 'gamble' | 'reward' | 'refund' | 'admin' | 'season';
+
+export interface PointTransaction {
+    userIdHash: string;
+    nickname: string;
+    delta: number;
+    balance: number; // 변경 후 잔액
+    reason: string;
+    source: PointSource;
+    actor: string; // 변경을 일으킨 주체 (시청자 닉네임, 'system', 'dashboard' 등)
+    createdAt: number;
+}
+
+interface ChangeMeta {
+    source: PointSource;
+    reason: string;
+    actor?: string;
+}
+
+interface ActiveViewer {
+    nickname: string;
+    role: UserRole;
+    lastSeen: number;
+}
+
+// 채팅/시청 적립은 모아서 한 번에 반영 (저장 및 브로드캐스트 횟수 절감)
+const FLUSH_DELAY_MS = 5000;
+
 export class PointManager {
     private points: { [userIdHash: string]: UserPoint } = {};
     private onStateChangeCallback: (type: string, payload: any) => void = () => { };
+    private onTransactionCallback: (tx: PointTransaction) => void = () => { };
+    private cooldowns: Map<string, number> = new Map(); // `${기능}:${userIdHash}` → 마지막 사용 시각
+    private activeViewers: Map<string, ActiveViewer> = new Map();
+    private lastWatchAccrual: number = Date.now();
+    private flushTimer: NodeJS.Timeout | null = null;
 
     // [수정] 중복된 생성자 제거 및 단일화
     constructor(initialData?: { [userIdHash: string]: UserPoint }) {
@@ -20,40 +54,269 @@ export class PointManager {
         this.onStateChangeCallback = callback;
     }
 
+    public setOnTransactionListener(callback: (tx: PointTransaction) => void) {
+        this.onTransactionCallback = callback;
+    }
+
     private notify() {
+        if (this.flushTimer) { clearTimeout(this.flushTimer); this.flushTimer = null; }
         this.onStateChangeCallback('pointsUpdate', this.getPointsData());
     }
 
+    private scheduleFlush() {
+        if (this.flushTimer) return;
+        this.flushTimer = setTimeout(() => { this.flushTimer = null; this.notify(); }, FLUSH_DELAY_MS);
+    }
+
+    /**
+     * 대기 중인 적립분을 즉시 반영 (봇 종료 시 호출)
+     */
+    public flush() {
+        if (this.flushTimer) this.notify();
+    }
+
+    private getMultiplier(role: UserRole, settings: BotSettings): number {
+        if (role === 'streamer' || role === 'manager') return settings.pointsManagerMultiplier || 1;
+        if (role === 'subscriber') return settings.pointsSubscriberMultiplier || 1;
+        return 1;
+    }
+
+    /**
+     * 모든 포인트 변경은 이 함수를 거칩니다. (정수만 허용, 잔액이 음수가 되면 거부)
+     * 변경 내역은 거래 기록으로 남습니다.
+     */
+    private applyChange(userId: string, delta: number, meta: ChangeMeta, nickname?: string): boolean {
+        if (!userId || !Number.isInteger(delta)) return false;
+
+        const user = this.points[userId] || { nickname: nickname || '익명', points: 0, lastMessageTime: 0 };
+        const next = user.points + delta;
+        if (next < 0) return false;
+
+        user.points = next;
+        if (nickname) user.nickname = nickname;
+        this.points[userId] = user;
+
+        if (delta !== 0) {
+            this.onTransactionCallback({
+                userIdHash: userId,
+                nickname: user.nickname,
+                delta,
+                balance: next,
+                reason: meta.reason,
+                source: meta.source,
+                actor: meta.actor || 'system',
+                createdAt: Date.now()
+            });
+        }
+        return true;
+    }
+
+    /**
+     * 외부 기능(교환소 등)에서 사용하는 포인트 증감. 잔액 부족 시 false
+     */
+    public changePoints(userId: string, delta: number, meta: ChangeMeta, nickname?: string): boolean {
+        if (!this.applyChange(userId, delta, meta, nickname)) return false;
+        this.notify();
+        return true;
+    }
+
+    /**
+     * 관리자 조정 (대시보드): add / subtract / set
+     */
+    public adjustPoints(userId: string, mode: 'add' | 'subtract' | 'set', amount: number, reason: string, actor: string = 'dashboard'): boolean {
+        if (!Number.isInteger(amount) || amount < 0) return false;
+
+        const current = this.getPoints(userId);
+        const delta = mode === 'set' ? amount - current : mode === 'subtract' ? -amount : amount;
+        return this.changePoints(userId, delta, { source: 'admin', reason: reason || '관리자 조정', actor });
+    }
+
     public awardPoints(chat: ChatEvent, settings: BotSettings) {
         const userId = chat.profile.userIdHash;
         const now = Date.now();
-        const user = this.points[userId] || { nickname: chat.profile.nickname, points: 0, lastMessageTime: 0 };
+        const user = this.points[userId];
+        const role = getUserRole(chat);
+
+        // 시청 적립 대상 기록
+        this.activeViewers.set(userId, { nickname: chat.profile.nickname, role, lastSeen: now });
 
         // 쿨타임 체크 (밀리초 단위 변환)
-        if (now - user.lastMessageTime >= settings.pointsCooldown * 1000) {
-            user.points += settings.pointsPerChat;
-            user.lastMessageTime = now;
-            user.nickname = chat.profile.nickname; // 닉네임 갱신
-            this.points[userId] = user;
-            this.notify(); // 저장 트리거
+        if (now - (user?.lastMessageTime || 0) >= settings.pointsCooldown * 1000) {
+            const amount = Math.floor(settings.pointsPerChat * this.getMultiplier(role, settings));
+            if (!this.applyChange(userId, amount, { source: 'chat', reason: '채팅 적립' }, chat.profile.nickname)) return;
+            this.points[userId].lastMessageTime = now;
+            this.scheduleFlush(); // 저장 트리거
         }
     }
 
+    /**
+     * 시청 시간 적립: 방송 중일 때 최근 활동 시간 안에 채팅한 시청자에게 주기적으로 지급
+     */
+    public accrueWatchTime(settings: BotSettings, isLive: boolean) {
+        const now = Date.now();
+        const windowMs = settings.pointsActivityWindow * 60 * 1000;
+
+        // 오래된 활동 기록 정리
+        this.activeViewers.forEach((v, id) => { if (now - v.lastSeen > windowMs) this.activeViewers.delete(id); });
+
+        if (!isLive || !settings.pointsWatchEnabled || settings.pointsPerWatch <= 0) {
+            this.lastWatchAccrual = now;
+            return;
+        }
+        if (now - this.lastWatchAccrual < settings.pointsWatchInterval * 60 * 1000) return;
+        this.lastWatchAccrual = now;
+
+        let changed = false;
+        this.activeViewers.forEach((v, id) => {
+            const amount = Math.floor(settings.pointsPerWatch * this.getMultiplier(v.role, settings));
+            if (this.applyChange(id, amount, { source: 'watch', reason: '시청 적립' }, v.nickname)) changed = true;
+        });
+        if (changed) this.scheduleFlush();
+    }
+
+    /**
+     * 후원 금액을 포인트로 환산 (치즈 1개당 pointsPerDonationCheese)
+     */
+    public awardDonation(donation: DonationEvent, settings: BotSettings) {
+        const userId = donation.profile?.userIdHash;
+        const amount = (donation as any).payAmount || donation.extras?.payAmount || 0;
+        if (!userId || !settings.pointsPerDonationCheese || amount <= 0) return;
+
+        const points = Math.floor(amount * settings.pointsPerDonationCheese);
+        if (this.applyChange(userId, points, { source: 'donation', reason: `후원 ${amount}치즈` }, donation.profile?.nickname)) this.notify();
+    }
+
+    /**
+     * 시즌 종료: 모든 잔액을 percent(%)만큼 감소 (100이면 초기화)
+     */
+    public decayAll(percent: number, reason: string) {
+        const rate = Math.min(100, Math.max(0, percent)) / 100;
+        let changed = false;
+        for (const [userId, user] of Object.entries(this.points)) {
+            const delta = -Math.ceil(user.points * rate);
+            if (delta !== 0 && this.applyChange(userId, delta, { source: 'season', reason })) changed = true;
+        }
+        if (changed) this.notify();
+    }
+
     public getPoints(userId: string): number {
         return this.points[userId]?.points || 0;
     }
 
+    /**
+     * 포인트 순위 (1부터 시작, 기록이 없으면 0)
+     */
+    public getRank(userId: string): number {
+        if (!this.points[userId]) return 0;
+        const myPoints = this.points[userId].points;
+        return Object.values(this.points).filter(p => p.points > myPoints).length + 1;
+    }
+
+    public getRanking(limit: number): { userIdHash: string; nickname: string; points: number }[] {
+        return Object.entries(this.points)
+            .filter(([, p]) => p.points > 0)
+            .sort((a, b) => b[1].points - a[1].points)
+            .slice(0, limit)
+            .map(([userIdHash, p]) => ({ userIdHash, nickname: p.nickname, points: p.points }));
+    }
+
     public getPointsData() {
         return this.points;
     }
 
+    private findUserByNickname(nickname: string): string | null {
+        const entry = Object.entries(this.points).find(([, p]) => p.nickname === nickname);
+        return entry ? entry[0] : null;
+    }
+
+    /**
+     * 쿨타임 중이면 남은 초를 반환하고, 아니면 사용 시각을 기록한 뒤 0을 반환합니다.
+     */
+    private checkCooldown(action: string, userId: string, seconds: number): number {
+        const key = `${action}:${userId}`;
+        const now = Date.now();
+        const remaining = (this.cooldowns.get(key) || 0) + seconds * 1000 - now;
+        if (remaining > 0) return Math.ceil(remaining / 1000);
+        this.cooldowns.set(key, now);
+        return 0;
+    }
+
     public handleCommand(chat: ChatEvent, chzzkChat: any, settings: BotSettings) {
-        const msg = chat.message.trim();
-        const cmd = settings.pointsName || '!포인트';
-        if (msg !== cmd && msg !== '!포인트') return;
+        const parts = chat.message.trim().split(/\s+/);
+        const name = settings.pointsName || '포인트';
+        if (![name, `!${name}`, '!포인트'].includes(parts[0])) return;
+
+        const subCmd = parts[1];
+        if (!subCmd) {
+            const pts = this.getPoints(chat.profile.userIdHash);
+            return chzzkChat.sendChat(`${chat.profile.nickname}님의 ${name}: ${pts.toLocaleString()}`);
+        }
 
+        if (subCmd === '선물') return this.handleGift(chat, chzzkChat, settings, parts.slice(2));
+        if (subCmd === '순위') return this.handleRanking(chzzkChat, settings);
+        if (subCmd === '도박') return this.handleGamble(chat, chzzkChat, settings, parts[2]);
+
+        chzzkChat.sendChat(`💡 ${parts[0]} / ${parts[0]} 선물 @닉네임 수량 / ${parts[0]} 순위${settings.pointsGambleEnabled ? ` / ${parts[0]} 도박 수량` : ''}`);
+    }
+
+    // !포인트 선물 @닉 100
+    private handleGift(chat: ChatEvent, chzzkChat: any, settings: BotSettings, args: string[]) {
+        const name = settings.pointsName || '포인트';
+        const targetNick = (args[0] || '').replace(/^@/, '');
+        const amount = parseInt(args[1]);
+        if (!targetNick || isNaN(amount) || amount <= 0) return chzzkChat.sendChat(`💡 사용법: !포인트 선물 @닉네임 수량`);
+
+        const senderId = chat.profile.userIdHash;
+        const targetId = this.findUserByNickname(targetNick);
+        if (!targetId) return chzzkChat.sendChat(`❌ ${targetNick}님을 찾을 수 없습니다.`);
+        if (targetId === senderId) return chzzkChat.sendChat('⚠️ 자기 자신에게는 선물할 수 없습니다.');
+        if (this.getPoints(senderId) < amount) return chzzkChat.sendChat(`❌ ${name}가 부족합니다. (보유: ${this.getPoints(senderId).toLocaleString()})`);
+
+        const remaining = this.checkCooldown('gift', senderId, settings.pointsGiftCooldown);
+        if (remaining > 0) return chzzkChat.sendChat(`⏳ ${remaining}초 뒤에 다시 선물할 수 있습니다.`);
+
+        const actor = chat.profile.nickname;
+        if (!this.applyChange(senderId, -amount, { source: 'gift', reason: `${this.points[targetId].nickname}님에게 선물`, actor }, actor)) return;
+        this.applyChange(targetId, amount, { source: 'gift', reason: `${actor}님의 선물`, actor });
+        this.notify();
+        chzzkChat.sendChat(`🎁 ${chat.profile.nickname}님이 ${this.points[targetId].nickname}님에게 ${amount.toLocaleString()} ${name}를 선물했습니다!`);
+    }
+
+    // !포인트 순위 (채널 전체 쿨타임, 쿨타임 중에는 응답하지 않아 도배 방지)
+    private handleRanking(chzzkChat: any, settings: BotSettings) {
+        if (this.checkCooldown('ranking', '*', settings.pointsRankingCooldown ?? 30) > 0) return;
+        const name = settings.pointsName || '포인트';
+        const ranking = this.getRanking(settings.pointsRankingSize || 5);
+        if (ranking.length === 0) return chzzkChat.sendChat(`📊 ${name} 기록이 없습니다.`);
+
+        const list = ranking.map((r, i) => `${i + 1}. ${r.nickname}(${r.points.toLocaleString()})`).join(' / ');
+        chzzkChat.sendChat(`🏆 ${name} 순위: ${list}`);
+    }
+
+    // !포인트 도박 100 (올인 가능)
+    private handleGamble(chat: ChatEvent, chzzkChat: any, settings: BotSettings, betStr?: string) {
+        if (!settings.pointsGambleEnabled) return chzzkChat.sendChat('⛔ 도박 기능이 비활성화되어 있습니다.');
+
+        const name = settings.pointsName || '포인트';
         const userId = chat.profile.userIdHash;
-        const pts = this.getPoints(userId);
-        chzzkChat.sendChat(`${chat.profile.nickname}님의 포인트: ${pts} P`);
+        const balance = this.getPoints(userId);
+        const bet = betStr === '올인' ? balance : parseInt(betStr || '');
+
+        if (isNaN(bet) || bet <= 0) return chzzkChat.sendChat('💡 사용법: !포인트 도박 수량 (또는 올인)');
+        if (settings.pointsGambleMaxBet > 0 && bet > settings.pointsGambleMaxBet) return chzzkChat.sendChat(`⚠️ 최대 ${settings.pointsGambleMaxBet.toLocaleString()} ${name}까지 걸 수 있습니다.`);
+        if (bet > balance) return chzzkChat.sendChat(`❌ ${name}가 부족합니다. (보유: ${balance.toLocaleString()})`);
+
+        const remaining = this.checkCooldown('gamble', userId, settings.pointsGambleCooldown);
+        if (remaining > 0) return chzzkChat.sendChat(`⏳ ${remaining}초 뒤에 다시 도전할 수 있습니다.`);
+
+        const win = Math.random() * 100 < settings.pointsGambleWinChance;
+        const delta = win ? Math.floor(bet * settings.pointsGambleMultiplier) - bet : -bet;
+        if (!this.applyChange(userId, delta, { source: 'gamble', reason: win ? '도박 성공' : '도박 실패', actor: chat.profile.nickname }, chat.profile.nickname)) return;
+        this.notify();
+
+        const result = this.getPoints(userId).toLocaleString();
+        chzzkChat.sendChat(win
+            ? `🎰 ${chat.profile.nickname}님 성공! +${delta.toLocaleString()} ${name} (보유: ${result})`
+            : `💸 ${chat.profile.nickname}님 실패... -${bet.toLocaleString()} ${name} (보유: ${result})`);
     }
-}
\ No newline at end of file
+}
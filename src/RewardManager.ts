@@ -0,0 +1,241 @@
+import { ChatEvent, ChzzkChat } from 'chzzk';
+import { BotInstance } from './BotInstance';
+
+export type RewardAction = 'none' | 'roulette' | 'song';
+
+export interface Reward {
+    id: string;
+    name: string;
+    cost: number;
+    stock: number | null; // null이면 무제한
+    perUserLimit: number; // 0이면 무제한
+    cooldown: number; // 유저별 쿨타임 (초)
+    autoApprove: boolean; // 대기열을 거치지 않고 즉시 처리
+    action: RewardAction; // 승인 시 실행할 기능
+    enabled: boolean;
+    redeemedBy: { [userIdHash: string]: number }; // 유저별 교환 횟수 (환불 시 차감)
+}
+
+export interface Redemption {
+    id: string;
+    rewardId: string;
+    rewardName: string;
+    userIdHash: string;
+    nickname: string;
+    cost: number;
+    input: string; // 시청자가 함께 입력한 내용 (곡 링크 등)
+    status: 'pending' | 'approved' | 'refunded';
+    createdAt: number;
+    processedAt?: number;
+}
+
+const MAX_PROCESSED_HISTORY = 50;
+
+/**
+ * RewardManager: 포인트 교환소를 담당합니다.
+ * 교환 시 포인트를 먼저 차감(보류)하고, 대시보드에서 승인하면 확정, 환불하면 반환합니다.
+ */
+export class RewardManager {
+    private rewards: Reward[] = [];
+    private redemptions: Redemption[] = [];
+    private cooldowns: Map<string, number> = new Map();
+    private processing: Set<string> = new Set(); // 승인 처리 중인 교환 (중복 승인 방지)
+    private onStateChangeCallback: () => void = () => {};
+
+    constructor(private bot: BotInstance, initialRewards?: any[], initialRedemptions?: Redemption[]) {
+        this.rewards = (initialRewards || []).map(r => this.normalizeReward(r));
+        this.redemptions = initialRedemptions || [];
+    }
+
+    public setOnStateChangeListener(callback: () => void) {
+        this.onStateChangeCallback = callback;
+    }
+
+    private notify() {
+        this.onStateChangeCallback();
+        this.bot.saveAll();
+    }
+
+    public getState() {
+        return {
+            rewards: this.rewards,
+            pending: this.redemptions.filter(r => r.status === 'pending'),
+            history: this.redemptions.filter(r => r.status !== 'pending')
+        };
+    }
+
+    public getData() { return { rewards: this.rewards, redemptions: this.redemptions }; }
+
+    private normalizeReward(r: any): Reward {
+        const stock = r.stock === null || r.stock === undefined || r.stock === '' ? null : Math.max(0, parseInt(r.stock) || 0);
+        return {
+            id: r.id || `rwd_${Date.now()}`,
+            name: String(r.name || '').trim(),
+            cost: Math.max(0, parseInt(r.cost) || 0),
+            stock,
+            perUserLimit: Math.max(0, parseInt(r.perUserLimit) || 0),
+            cooldown: Math.max(0, parseInt(r.cooldown) || 0),
+            autoApprove: !!r.autoApprove,
+            action: ['roulette', 'song'].includes(r.action) ? r.action : 'none',
+            enabled: r.enabled !== false,
+            redeemedBy: r.redeemedBy || {}
+        };
+    }
+
+    public addReward(data: Partial<Reward>): boolean {
+        const reward = this.normalizeReward({ ...data, id: undefined, redeemedBy: {} });
+        if (!reward.name || this.rewards.some(r => r.name === reward.name)) return false;
+        this.rewards.push(reward);
+        this.notify();
+        return true;
+    }
+
+    public updateReward(id: string, data: Partial<Reward>): boolean {
+        const index = this.rewards.findIndex(r => r.id === id);
+        if (index === -1) return false;
+        const current = this.rewards[index];
+        this.rewards[index] = this.normalizeReward({ ...current, ...data, id, redeemedBy: current.redeemedBy });
+        this.notify();
+        return true;
+    }
+
+    public removeReward(id: string) {
+        this.rewards = this.rewards.filter(r => r.id !== id);
+        this.notify();
+    }
+
+    /**
+     * !교환 (목록) / !교환 보상이름 [입력]
+     */
+    public async handleCommand(chat: ChatEvent, chzzkChat: ChzzkChat) {
+        const pointsName = this.bot.settings.getSettings().pointsName || '포인트';
+        const body = chat.message.trim().replace(/^\S+\s*/, '');
+        const available = this.rewards.filter(r => r.enabled);
+
+        if (!body) {
+            if (available.length === 0) return chzzkChat.sendChat('🛒 등록된 보상이 없습니다.');
+            const list = available.map(r => `${r.name}(${r.cost.toLocaleString()})`).join(' / ');
+            return chzzkChat.sendChat(`🛒 교환소: ${list} | 사용법: !교환 보상이름`);
+        }
+
+        // 이름에 공백이 있을 수 있으므로 가장 긴 이름부터 매칭
+        const reward = [...available].sort((a, b) => b.name.length - a.name.length)
+            .find(r => body === r.name || body.startsWith(`${r.name} `));
+        if (!reward) return chzzkChat.sendChat('❌ 해당 보상을 찾을 수 없습니다.');
+        const input = body.slice(reward.name.length).trim();
+
+        const userId = chat.profile.userIdHash;
+        const nickname = chat.profile.nickname;
+
+        if (reward.stock !== null && reward.stock <= 0) return chzzkChat.sendChat(`📦 ${reward.name} 재고가 소진되었습니다.`);
+        if (reward.perUserLimit > 0 && (reward.redeemedBy[userId] || 0) >= reward.perUserLimit) {
+            return chzzkChat.sendChat(`⚠️ ${reward.name}은(는) 1인당 ${reward.perUserLimit}회까지 교환할 수 있습니다.`);
+        }
+        if (reward.action === 'song' && !this.bot.songs.isValidYoutubeLink(input)) {
+            return chzzkChat.sendChat(`💡 사용법: !교환 ${reward.name} [유튜브 링크]`);
+        }
+
+        const cooldownKey = `${reward.id}:${userId}`;
+        const remaining = (this.cooldowns.get(cooldownKey) || 0) + reward.cooldown * 1000 - Date.now();
+        if (remaining > 0) return chzzkChat.sendChat(`⏳ ${Math.ceil(remaining / 1000)}초 뒤에 다시 교환할 수 있습니다.`);
+
+        if (!this.bot.points.changePoints(userId, -reward.cost, { source: 'reward', reason: `${reward.name} 교환`, actor: nickname }, nickname)) {
+            return chzzkChat.sendChat(`❌ ${pointsName}가 부족합니다. (필요: ${reward.cost.toLocaleString()})`);
+        }
+        this.cooldowns.set(cooldownKey, Date.now());
+
+        if (reward.stock !== null) reward.stock--;
+        reward.redeemedBy[userId] = (reward.redeemedBy[userId] || 0) + 1;
+
+        const redemption: Redemption = {
+            id: `rdm_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`,
+            rewardId: reward.id,
+            rewardName: reward.name,
+            userIdHash: userId,
+            nickname,
+            cost: reward.cost,
+            input,
+            status: 'pending',
+            createdAt: Date.now()
+        };
+        this.redemptions.push(redemption);
+
+        if (reward.autoApprove) {
+            // 실패 시 approveRedemption에서 환불 및 안내
+            if (!await this.approveRedemption(redemption.id)) return;
+            return chzzkChat.sendChat(`✅ ${nickname}님, ${reward.name} 교환 완료!`);
+        }
+        this.notify();
+        return chzzkChat.sendChat(`🧾 ${nickname}님, ${reward.name} 교환 신청이 접수되었습니다.`);
+    }
+
+    /**
+     * 승인: 연결된 기능을 먼저 실행하고, 성공하면 차감을 확정합니다.
+     * 기능 실행에 실패하면(신청곡 거부 등) 자동으로 환불합니다.
+     */
+    public async approveRedemption(id: string): Promise<boolean> {
+        const redemption = this.redemptions.find(r => r.id === id && r.status === 'pending');
+        if (!redemption || this.processing.has(id)) return false;
+        this.processing.add(id);
+
+        const reward = this.rewards.find(r => r.id === redemption.rewardId);
+        let error: string | undefined;
+        try {
+            if (reward?.action === 'roulette') {
+                if (!this.bot.vote.spinRoulette()) error = '🎡 지금은 룰렛을 돌릴 수 없습니다.';
+            } else if (reward?.action === 'song') {
+                const result = await this.bot.songs.addSongByLink(redemption.input, redemption.nickname, redemption.userIdHash);
+                if (!result.song) error = result.error || '❌ 신청곡을 추가하지 못했습니다.';
+            }
+        } catch (err) {
+            console.error('[RewardManager] Action error:', err);
+            error = '❌ 처리 중 오류가 발생했습니다.';
+        } finally {
+            this.processing.delete(id);
+        }
+
+        // 처리 중 다른 경로로 상태가 바뀌었다면 확정하지 않음
+        if (redemption.status !== 'pending') return false;
+
+        if (error) {
+            if (this.bot.chat) this.bot.chat.sendChat(`${redemption.nickname}님의 ${redemption.rewardName}: ${error}`);
+            this.refundRedemption(id);
+            return false;
+        }
+
+        redemption.status = 'approved';
+        redemption.processedAt = Date.now();
+        this.trimHistory();
+        this.notify();
+        return true;
+    }
+
+    /**
+     * 환불: 보류된 포인트와 재고/교환 횟수를 되돌립니다.
+     */
+    public refundRedemption(id: string): boolean {
+        const redemption = this.redemptions.find(r => r.id === id && r.status === 'pending');
+        if (!redemption || this.processing.has(id)) return false; // 승인 처리 중에는 환불 불가
+
+        this.bot.points.changePoints(redemption.userIdHash, redemption.cost, { source: 'refund', reason: `${redemption.rewardName} 환불`, actor: 'dashboard' });
+        const reward = this.rewards.find(r => r.id === redemption.rewardId);
+        if (reward) {
+            if (reward.stock !== null) reward.stock++;
+            reward.redeemedBy[redemption.userIdHash] = Math.max(0, (reward.redeemedBy[redemption.userIdHash] || 0) - 1);
+        }
+
+        redemption.status = 'refunded';
+        redemption.processedAt = Date.now();
+        this.trimHistory();
+        this.notify();
+        if (this.bot.chat) this.bot.chat.sendChat(`↩️ ${redemption.nickname}님의 ${redemption.rewardName} 교환이 환불되었습니다.`);
+        return true;
+    }
+
+    private trimHistory() {
+        const processed = this.redemptions.filter(r => r.status !== 'pending');
+        if (processed.length <= MAX_PROCESSED_HISTORY) return;
+        const drop = new Set(processed.slice(0, processed.length - MAX_PROCESSED_HISTORY).map(r => r.id));
+        this.redemptions = this.redemptions.filter(r => !drop.has(r.id));
+    }
+}
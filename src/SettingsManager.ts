@@ -1,3 +1,5 @@
+import { DEFAULT_TIMEZONE, isValidTimezone } from './TimeUtils';
+
 export interface OverlayConfig {
     backgroundColor: string;
     textColor: string;
@@ -7,16 +9,83 @@ export interface OverlayConfig {
     theme: string;
 }
 
+// 시청자 참여 하위 명령어 (예: !시참 참여)
+export interface ParticipationWords {
+    join: string;
+    status: string;
+    list: string;
+    cancel: string;
+    position: string;
+    pull: string; // 이하 매니저 전용
+    kick: string;
+    move: string;
+}
+
+// 시청자 참여 응답 템플릿 (VariableProcessor 변수 사용 가능)
+export interface ParticipationMessages {
+    help: string;
+    started: string;
+    stopped: string;
+    notActive: string;
+    alreadyJoined: string;
+    full: string;
+    queueFull: string;
+    joined: string;
+    status: string;
+    listEmpty: string;
+    list: string;
+    nextRound: string;
+    gameIdUpdated: string;
+    cancelled: string;
+    notInQueue: string;
+    position: string;
+    noPermission: string;
+    userNotFound: string;
+    pulled: string;
+    kicked: string;
+    moved: string;
+    moveUnavailable: string;
+}
+
 export interface BotSettings {
     chatEnabled: boolean;
     songRequestMode: 'all' | 'cooldown' | 'donation' | 'off';
     songRequestCooldown: number;
     minDonationAmount: number;
+    songDonationTiers: { name: string; minAmount: number }[]; // 금액이 클수록 대기열 앞쪽에 배치
+    songMaxDuration: number; // 최대 영상 길이 (초, 0이면 제한 없음)
+    songMinViews: number; // 최소 조회수
+    songMaxPerUser: number; // 1인당 대기열 곡 수 (0이면 제한 없음)
+    songRecentLimit: number; // 최근 N곡 안에 재생된 곡 재신청 금지 (0이면 사용 안 함)
+    songSkipVoteMode: 'count' | 'percent'; // 스킵 투표 기준: 고정 인원 / 시청자 수 비율
+    songSkipVoteThreshold: number; // 필요 인원 또는 비율 (%)
     pointsPerChat: number;
     pointsCooldown: number;
     pointsName: string;
+    pointsGiftCooldown: number; // 초
+    pointsWatchEnabled: boolean; // 시청 시간 적립
+    pointsPerWatch: number; // 적립 주기마다 지급할 포인트
+    pointsWatchInterval: number; // 적립 주기 (분)
+    pointsActivityWindow: number; // 최근 채팅 인정 시간 (분)
+    pointsSubscriberMultiplier: number;
+    pointsManagerMultiplier: number;
+    pointsPerDonationCheese: number; // 치즈 1개당 포인트 (0이면 사용 안 함)
+    pointsRankingSize: number;
+    pointsRankingCooldown: number; // 초 (채널 전체)
+    pointsSeasonDecayPercent: number; // 시즌 종료 시 감소율 (%, 100이면 초기화)
+    pointsGambleEnabled: boolean;
+    pointsGambleWinChance: number; // 성공 확률 (%)
+    pointsGambleMultiplier: number; // 성공 시 배당 (배팅액 x 배수)
+    pointsGambleMaxBet: number; // 0이면 제한 없음
+    pointsGambleCooldown: number; // 초
     participationCommand: string;
+    participationWords: ParticipationWords;
+    participationMessages: ParticipationMessages;
+    participationOrderMode: 'fifo' | 'fair'; // fair: 적게 참여한 순 → 구독자 → 신청 순
+    participationRoundSize: number; // 다음 라운드에 뽑을 인원 (0이면 정원만큼)
+    participationQueueLimit: number; // 대기열 최대 인원 (0이면 제한 없음)
     maxParticipants: number;
+    timezone: string; // 일일 인사, 카운터 등 날짜 계산 기준 시간대 (IANA)
     overlay: OverlayConfig; // [추가]
 }
 
@@ -25,11 +94,63 @@ export const defaultSettings: BotSettings = {
     songRequestMode: 'all',
     songRequestCooldown: 30,
     minDonationAmount: 1000,
+    songDonationTiers: [],
+    songMaxDuration: 0,
+    songMinViews: 0,
+    songMaxPerUser: 0,
+    songRecentLimit: 0,
+    songSkipVoteMode: 'count',
+    songSkipVoteThreshold: 5,
     pointsPerChat: 10,
     pointsCooldown: 60,
     pointsName: '포인트',
+    pointsGiftCooldown: 30,
+    pointsWatchEnabled: false,
+    pointsPerWatch: 5,
+    pointsWatchInterval: 5,
+    pointsActivityWindow: 15,
+    pointsSubscriberMultiplier: 1,
+    pointsManagerMultiplier: 1,
+    pointsPerDonationCheese: 0,
+    pointsRankingSize: 5,
+    pointsRankingCooldown: 30,
+    pointsSeasonDecayPercent: 100,
+    pointsGambleEnabled: false,
+    pointsGambleWinChance: 45,
+    pointsGambleMultiplier: 2,
+    pointsGambleMaxBet: 1000,
+    pointsGambleCooldown: 60,
     participationCommand: '!시참',
+    participationWords: { join: '참여', status: '현황', list: '대기열', cancel: '취소', position: '내순서', pull: '뽑기', kick: '제외', move: '순서' },
+    participationMessages: {
+        help: "📢 [시참 안내] '/pcommand 참여 [게임닉]' - 등록 / '/pcommand 취소' - 취소 / '/pcommand 내순서' - 내 순서 / '/pcommand 현황' - 인원 / '/pcommand 대기열' - 순서",
+        started: '📢 시청자 참여 모집이 시작되었습니다! (/pcommand 참여)',
+        stopped: '⛔ 시청자 참여 모집이 마감되었습니다.',
+        notActive: '⛔ 현재는 모집 중이 아닙니다.',
+        alreadyJoined: '⚠️ /user님은 이미 등록되어 있습니다.',
+        full: '❌ 정원이 가득 찼습니다. (/participants / /maxparticipants)',
+        queueFull: '❌ 대기열이 가득 찼습니다. (대기 /waiting명)',
+        joined: '✅ /user님, 대기열에 등록되었습니다!',
+        status: '👥 현재 참여: /participants / /maxparticipants명 | 대기: /waiting명',
+        listEmpty: '📜 대기자가 없습니다.',
+        list: '📜 대기열: /waitinglist',
+        nextRound: '🔄 다음 라운드 참여자: /participantlist',
+        gameIdUpdated: '🎮 /user님의 게임 닉네임이 /arg1(으)로 변경되었습니다.',
+        cancelled: '🗑️ /user님의 참여 신청이 취소되었습니다.',
+        notInQueue: '❌ /user님은 대기열에 없습니다.',
+        position: '🎮 /user님의 대기 순서: /myqueuepos번째 (대기 /waiting명)',
+        noPermission: '🛡️ 시참 관리 권한이 없습니다.',
+        userNotFound: '❌ /arg1님을 찾을 수 없습니다.',
+        pulled: '✅ 참여 확정: /args',
+        kicked: '🚫 /arg1님을 시참 목록에서 제외했습니다.',
+        moved: '↕️ /arg1님을 /arg2번째로 옮겼습니다.',
+        moveUnavailable: '⚠️ 공정 순환 모드에서는 순서를 바꿀 수 없습니다.'
+    },
+    participationOrderMode: 'fifo',
+    participationRoundSize: 0,
+    participationQueueLimit: 0,
     maxParticipants: 10,
+    timezone: DEFAULT_TIMEZONE,
     overlay: {
         backgroundColor: '#000000', // 박스 배경색 (투명도 조절 대상)
         textColor: '#ffffff',
@@ -50,7 +171,9 @@ export class SettingsManager {
         this.settings = {
             ...defaultSettings,
             ...initialSettings,
-            overlay: { ...defaultSettings.overlay, ...(initialSettings?.overlay || {}) }
+            overlay: { ...defaultSettings.overlay, ...(initialSettings?.overlay || {}) },
+            participationWords: { ...defaultSettings.participationWords, ...(initialSettings?.participationWords || {}) },
+            participationMessages: { ...defaultSettings.participationMessages, ...(initialSettings?.participationMessages || {}) }
         };
     }
 
@@ -64,12 +187,23 @@ export class SettingsManager {
 
     public updateSettings(newSettings: Partial<BotSettings>) {
         const oldChatEnabled = this.settings.chatEnabled;
+        if (newSettings.timezone !== undefined && !isValidTimezone(newSettings.timezone)) {
+            const { timezone, ...rest } = newSettings;
+            newSettings = rest;
+        }
+        // 참여 명령어는 '!'로 시작하는 한 단어만 허용
+        if (newSettings.participationCommand !== undefined && !/^!\S+$/.test(newSettings.participationCommand)) {
+            const { participationCommand, ...rest } = newSettings;
+            newSettings = rest;
+        }
 
         // 오버레이 설정 등 깊은 병합 처리
         this.settings = {
             ...this.settings,
             ...newSettings,
-            overlay: { ...this.settings.overlay, ...(newSettings.overlay || {}) }
+            overlay: { ...this.settings.overlay, ...(newSettings.overlay || {}) },
+            participationWords: { ...this.settings.participationWords, ...(newSettings.participationWords || {}) },
+            participationMessages: { ...this.settings.participationMessages, ...(newSettings.participationMessages || {}) }
         };
 
         this.onStateChangeCallback();
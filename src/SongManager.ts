@@ -1,15 +1,67 @@
 import { ChatEvent, ChzzkChat, DonationEvent } from 'chzzk';
 import ytdl from '@distube/ytdl-core';
 import { BotInstance } from './BotInstance';
+import { DataManager } from './DataManager';
 
 export interface Song {
     videoId: string;
     title: string;
     thumbnail: string;
     requester: string;
+    requesterId?: string;
     requestedAt: number;
+    duration: number; // 초
+    viewCount: number;
+    channelId: string; // 업로더 채널
+    channelName: string;
+    priority: number; // 0: 일반 신청, 1: 후원, 2 이상: 후원 등급 (높을수록 먼저 재생)
+    tier: string; // 대기열 표시용 등급 이름
+    isFallback?: boolean; // 대기열이 비었을 때 재생되는 기본 재생목록 곡
 }
 
+export interface FallbackPlaylist {
+    enabled: boolean;
+    mode: 'shuffle' | 'order';
+    songs: Song[];
+    cursor: number; // 순서 재생 시 다음 곡 위치
+}
+
+const MAX_FALLBACK_SONGS = 200;
+
+export interface SongDonationTier {
+    name: string;
+    minAmount: number;
+}
+
+export interface SongBlocklist {
+    videoIds: string[];
+    channels: string[]; // 채널 ID 또는 채널명
+    keywords: string[]; // 제목에 포함되면 거부
+}
+
+export type SongBlockKind = 'video' | 'channel' | 'keyword';
+
+export interface SongHistoryEntry {
+    videoId: string;
+    title: string;
+    requester: string;
+    requesterId?: string;
+    startedAt: number | null;
+    endedAt: number;
+    skipped: boolean;
+    liveId: number | null; // 재생 당시 방송
+}
+
+export interface SongRequestResult {
+    song?: Song;
+    position?: number; // 대기열 순서(1부터), 바로 재생되면 0
+    error?: string;
+}
+
+const RECENT_HISTORY_SIZE = 20;
+
+const QUEUE_PAGE_SIZE = 5;
+
 export class SongManager {
     private queue: Song[] = [];
     private currentSong: Song | null = null;
@@ -17,10 +69,21 @@ export class SongManager {
     private onStateChangeCallback: (type: string, payload: any) => void = () => { };
     private isPlayerConnected: boolean = false;
     private userCooldowns: Map<string, number> = new Map();
+    private blocklist: SongBlocklist = { videoIds: [], channels: [], keywords: [] };
+    private recentVideoIds: string[] = []; // 최근 재생된 곡 (중복 신청 방지)
+    private currentStartedAt: number = 0; // 현재 곡 재생 시작 시각 (대기 시간 예상용)
+    private history: SongHistoryEntry[] = []; // 최근 재생 기록 (최신순)
+    private fallback: FallbackPlaylist = { enabled: false, mode: 'shuffle', songs: [], cursor: 0 };
+    private skipVotes: Set<string> = new Set(); // 현재 곡 스킵 투표자 (곡이 바뀌면 초기화)
+    private progress = { position: 0, duration: 0, updatedAt: 0 }; // 플레이어가 보고한 재생 위치 (초)
 
     constructor(private bot: BotInstance, initialData: any) {
         this.queue = initialData.songQueue || [];
         this.currentSong = initialData.currentSong || null;
+        this.blocklist = { videoIds: [], channels: [], keywords: [], ...(initialData.songBlocklist || {}) };
+        this.history = initialData.songHistory || [];
+        this.fallback = { ...this.fallback, ...(initialData.songFallback || {}) };
+        this.recentVideoIds = this.history.map(h => h.videoId).reverse();
         // DB에 저장된 상태가 있다면 복구, 없으면 false
         this.isPlaying = false;
     }
@@ -34,12 +97,13 @@ export class SongManager {
         this.bot.saveAll();
     }
 
-    public getState() { return { queue: this.queue, currentSong: this.currentSong, isPlaying: this.isPlaying }; }
+    public getState() { return { queue: this.queue.map((s, i) => ({ ...s, priority: s.priority || 0, tier: s.tier || '일반', position: i + 1 })), currentSong: this.currentSong, isPlaying: this.isPlaying, blocklist: this.blocklist, fallback: this.fallback, skipVotes: { count: this.skipVotes.size, required: this.getSkipVoteRequired() }, progress: this.getProgress(), playerConnected: this.isPlayerConnected }; }
 
     public setPlayerConnected(connected: boolean) {
         this.isPlayerConnected = connected;
-        if (connected && !this.currentSong && this.queue.length > 0) this.playNext();
-        else if (connected && this.currentSong) this.notify();
+        // 재연결 시 상태(progress 포함)를 다시 보내 플레이어가 이어서 재생할 수 있게 함
+        if (connected && !this.currentSong && (this.queue.length > 0 || this.hasFallback())) this.playNext();
+        else this.notify();
     }
 
     public async handleCommand(chat: ChatEvent, chzzkChat: ChzzkChat, settings: any) {
@@ -53,10 +117,10 @@ export class SongManager {
         if (!subCmd || subCmd === '도움말') {
             let statusText = '🟢 전체 허용';
             if (settings.songRequestMode === 'off') statusText = '🔴 기능 꺼짐';
-            else if (settings.songRequestMode === 'donation') statusText = `💸 후원 전용 (${settings.minDonationAmount}치즈)`;
+            else if (settings.songRequestMode === 'donation') statusText = `💸 후원 전용 (${settings.minDonationAmount}치즈 이상)`;
             else if (settings.songRequestMode === 'cooldown') statusText = `⏳ 쿨타임 (${settings.songRequestCooldown}초)`;
 
-            return chzzkChat.sendChat(`🎵 [${statusText}] !노래 신청 [링크], !노래 스킵, !노래 대기열`);
+            return chzzkChat.sendChat(`🎵 [${statusText}] !노래 신청 [링크], !노래 취소, !노래 현재, !노래 내곡, !노래 대기열 [페이지], !노래 스킵투표, !노래 스킵`);
         }
 
         if (settings.songRequestMode === 'off') {
@@ -65,7 +129,7 @@ export class SongManager {
 
         if (subCmd === '신청') {
             if (settings.songRequestMode === 'donation') {
-                return chzzkChat.sendChat(`💸 후원(${settings.minDonationAmount}치즈)으로만 신청 가능합니다.`);
+                return chzzkChat.sendChat(`💸 후원(${settings.minDonationAmount}치즈 이상)으로만 신청 가능합니다.`);
             }
 
             const query = parts.slice(2).join(' ');
@@ -82,13 +146,9 @@ export class SongManager {
                 this.userCooldowns.set(chat.profile.userIdHash, now);
             }
 
-            try {
-                const song = await this.fetchSongInfo(query, chat.profile.nickname);
-                this.queue.push(song);
-                chzzkChat.sendChat(`✅ 대기열 추가: ${song.title}`);
-                if (!this.currentSong) this.playNext();
-                else this.notify();
-            } catch (err) { chzzkChat.sendChat('❌ 영상 정보를 가져올 수 없습니다.'); }
+            const { song, position, error } = await this.requestSong(query, chat.profile.nickname, chat.profile.userIdHash);
+            if (!song) return chzzkChat.sendChat(error!);
+            chzzkChat.sendChat(position === 0 ? `▶️ 바로 재생: ${song.title}` : `✅ 대기열 추가: ${song.title}`);
         }
         else if (subCmd === '스킵') {
             const role = chat.profile.userRoleCode;
@@ -99,34 +159,197 @@ export class SongManager {
                 chzzkChat.sendChat('🛡️ 스킵 권한이 없습니다.');
             }
         }
+        else if (subCmd === '스킵투표') {
+            if (!this.currentSong) return chzzkChat.sendChat('🔇 재생 중인 곡이 없습니다.');
+            const userId = chat.profile.userIdHash;
+            if (this.skipVotes.has(userId)) return chzzkChat.sendChat(`⚠️ ${chat.profile.nickname}님은 이미 투표했습니다. (${this.skipVotes.size}/${this.getSkipVoteRequired()})`);
+
+            this.skipVotes.add(userId);
+            const required = this.getSkipVoteRequired();
+            if (this.skipVotes.size >= required) {
+                const title = this.currentSong.title;
+                this.skipSong();
+                return chzzkChat.sendChat(`⏭️ 스킵 투표 통과! (${title})`);
+            }
+            this.notify();
+            chzzkChat.sendChat(`🗳️ 스킵 투표 ${this.skipVotes.size}/${required}`);
+        }
         else if (subCmd === '대기열') {
-            const list = this.queue.slice(0, 3).map((s, i) => `${i + 1}. ${s.title}`).join(' / ');
-            chzzkChat.sendChat(list ? `📜 대기열: ${list}...` : '📜 대기열이 비어있습니다.');
+            if (this.queue.length === 0) return chzzkChat.sendChat('📜 대기열이 비어있습니다.');
+
+            const totalPages = Math.ceil(this.queue.length / QUEUE_PAGE_SIZE);
+            const page = Math.min(totalPages, Math.max(1, parseInt(parts[2]) || 1));
+            const start = (page - 1) * QUEUE_PAGE_SIZE;
+            const list = this.queue.slice(start, start + QUEUE_PAGE_SIZE).map((s, i) => `${start + i + 1}. ${s.title}`).join(' / ');
+            chzzkChat.sendChat(`📜 대기열 (${page}/${totalPages}): ${list}`);
+        }
+        else if (subCmd === '취소') {
+            const index = this.findLastRequestIndex(chat);
+            if (index === -1) return chzzkChat.sendChat(`❌ ${chat.profile.nickname}님의 신청곡이 대기열에 없습니다.`);
+
+            const [removed] = this.queue.splice(index, 1);
+            this.notify();
+            chzzkChat.sendChat(`🗑️ 신청 취소: ${removed.title}`);
+        }
+        else if (subCmd === '이전') {
+            const last = this.getLastPlayed();
+            if (!last) return chzzkChat.sendChat('📜 재생 기록이 없습니다.');
+            chzzkChat.sendChat(`⏮️ 이전 곡: ${last.title} (신청: ${last.requester})`);
         }
+        else if (subCmd === '현재') {
+            if (!this.currentSong) return chzzkChat.sendChat('🔇 재생 중인 곡이 없습니다.');
+            chzzkChat.sendChat(`🎶 현재 곡: ${this.currentSong.title} (${this.currentSong.isFallback ? '기본 재생목록' : `신청: ${this.currentSong.requester}`})`);
+        }
+        else if (subCmd === '내곡') {
+            const index = this.queue.findIndex(s => this.isRequestedBy(s, chat));
+            if (index === -1) return chzzkChat.sendChat(`❌ ${chat.profile.nickname}님의 신청곡이 대기열에 없습니다.`);
+            chzzkChat.sendChat(`🎧 ${this.queue[index].title} - ${index + 1}번째 (예상 대기: ${this.formatWait(this.estimateWait(index))})`);
+        }
+    }
+
+    private isRequestedBy(song: Song, chat: ChatEvent): boolean {
+        // requesterId가 없는 예전 데이터는 닉네임으로 비교
+        return song.requesterId ? song.requesterId === chat.profile.userIdHash : song.requester === chat.profile.nickname;
+    }
+
+    private findLastRequestIndex(chat: ChatEvent): number {
+        for (let i = this.queue.length - 1; i >= 0; i--) {
+            if (this.isRequestedBy(this.queue[i], chat)) return i;
+        }
+        return -1;
+    }
+
+    /**
+     * 대기열 index 곡이 재생되기까지 남은 시간 (초): 현재 곡 잔여 + 앞 곡들의 길이
+     */
+    private estimateWait(index: number): number {
+        let wait = 0;
+        if (this.currentSong) {
+            const elapsed = this.currentStartedAt ? Math.floor((Date.now() - this.currentStartedAt) / 1000) : 0;
+            wait += Math.max(0, (this.currentSong.duration || 0) - elapsed);
+        }
+        for (let i = 0; i < index; i++) wait += this.queue[i].duration || 0;
+        return wait;
+    }
+
+    private formatWait(seconds: number): string {
+        const mins = Math.floor(seconds / 60);
+        const secs = seconds % 60;
+        return mins > 0 ? `약 ${mins}분 ${secs}초` : `약 ${secs}초`;
     }
 
     public async addSongFromDonation(donation: DonationEvent, message: string, settings: any) {
         if (settings.songRequestMode === 'off') return;
         const amount = (donation as any).payAmount || donation.extras?.payAmount || 0;
-        if (amount !== (settings.minDonationAmount || 0)) return;
+        if (amount < (settings.minDonationAmount || 0)) return;
 
         const urlMatch = message.match(/(https?:\/\/[^\s]+)/);
         if (urlMatch && this.isValidYoutubeLink(urlMatch[0])) {
-            try {
-                const song = await this.fetchSongInfo(urlMatch[0], donation.profile.nickname);
-                this.queue.push(song);
-                if (this.bot.chat) this.bot.chat.sendChat(`💰 후원 곡 추가: ${song.title}`);
-                if (!this.currentSong) this.playNext();
-                else this.notify();
-            } catch (err) { }
+            const { priority, tier } = this.getDonationPriority(amount, settings.songDonationTiers || []);
+            const { song, position, error } = await this.requestSong(urlMatch[0], donation.profile?.nickname || '익명', donation.profile?.userIdHash, priority, tier);
+            if (this.bot.chat) this.bot.chat.sendChat(song ? `💰 [${tier}] 후원 곡 추가: ${song.title} (${position === 0 ? '바로 재생' : `${position}번째`})` : error!);
+        }
+    }
+
+    /**
+     * 우선순위 모델: 일반 신청(0) < 최소 금액 이상 후원(1) < 등급별 후원(1 + 충족한 등급 수)
+     */
+    private getDonationPriority(amount: number, tiers: SongDonationTier[]): { priority: number; tier: string } {
+        const reached = [...tiers].filter(t => amount >= t.minAmount).sort((a, b) => a.minAmount - b.minAmount);
+        if (reached.length === 0) return { priority: 1, tier: '후원' };
+        return { priority: 1 + reached.length, tier: reached[reached.length - 1].name };
+    }
+
+    /**
+     * 같은 우선순위 안에서는 신청 순서를 유지하고, 더 높은 우선순위는 앞쪽에 배치
+     */
+    private insertByPriority(song: Song) {
+        const index = this.queue.findIndex(s => (s.priority || 0) < song.priority);
+        if (index === -1) this.queue.push(song);
+        else this.queue.splice(index, 0, song);
+    }
+
+    /**
+     * 링크로 곡 추가 (포인트 교환 등 외부 기능용)
+     */
+    public async addSongByLink(link: string, requester: string, requesterId?: string): Promise<SongRequestResult> {
+        return this.requestSong(link, requester, requesterId);
+    }
+
+    /**
+     * 모든 신청 경로(채팅/후원/교환)가 거치는 검증 및 대기열 추가
+     */
+    private async requestSong(link: string, requester: string, requesterId?: string, priority: number = 0, tier: string = '일반'): Promise<SongRequestResult> {
+        if (!this.isValidYoutubeLink(link)) return { error: '❌ 올바른 유튜브 링크를 입력하세요.' };
+        const settings = this.bot.settings.getSettings();
+
+        // 1. 영상 정보 없이 가능한 검사
+        const videoId = this.extractVideoId(link);
+        if (this.blocklist.videoIds.includes(videoId)) return { error: '🚫 신청이 금지된 영상입니다.' };
+        if ((this.currentSong?.videoId === videoId && !this.currentSong.isFallback) || this.queue.some(s => s.videoId === videoId)) return { error: '⚠️ 이미 대기열에 있는 곡입니다.' };
+        if (settings.songRecentLimit > 0 && this.recentVideoIds.slice(-settings.songRecentLimit).includes(videoId)) {
+            return { error: `⚠️ 최근 ${settings.songRecentLimit}곡 안에 재생된 곡입니다.` };
+        }
+        if (requesterId && settings.songMaxPerUser > 0 && this.queue.filter(s => s.requesterId === requesterId).length >= settings.songMaxPerUser) {
+            return { error: `⚠️ 1인당 최대 ${settings.songMaxPerUser}곡까지 대기열에 신청할 수 있습니다.` };
+        }
+
+        let song: Song;
+        try {
+            song = await this.fetchSongInfo(link, requester);
+            song.requesterId = requesterId;
+            song.priority = priority;
+            song.tier = tier;
+        } catch (err) { return { error: '❌ 영상 정보를 가져올 수 없습니다.' }; }
+
+        // 2. 영상 정보 기반 검사
+        if (settings.songMaxDuration > 0 && song.duration > settings.songMaxDuration) {
+            return { error: `⏱️ ${Math.floor(settings.songMaxDuration / 60)}분 ${settings.songMaxDuration % 60}초 이하의 영상만 신청할 수 있습니다.` };
+        }
+        if (settings.songMinViews > 0 && song.viewCount < settings.songMinViews) {
+            return { error: `👀 조회수 ${settings.songMinViews.toLocaleString()}회 이상인 영상만 신청할 수 있습니다.` };
+        }
+        if (this.blocklist.channels.some(c => c === song.channelId || c.toLowerCase() === song.channelName.toLowerCase())) {
+            return { error: '🚫 신청이 금지된 채널의 영상입니다.' };
         }
+        const keyword = this.blocklist.keywords.find(k => song.title.toLowerCase().includes(k.toLowerCase()));
+        if (keyword) return { error: `🚫 금지어(${keyword})가 포함된 영상입니다.` };
+
+        this.insertByPriority(song);
+        // 기본 재생목록 재생 중이면 바로 신청곡으로 전환
+        if (!this.currentSong || this.currentSong.isFallback) this.playNext();
+        else this.notify();
+        return { song, position: this.currentSong === song ? 0 : this.queue.indexOf(song) + 1 };
+    }
+
+    public addBlock(kind: SongBlockKind, value: string) {
+        const list = this.getBlockList(kind);
+        const v = (kind === 'video' ? this.extractVideoId(value) : value || '').trim();
+        if (!list || !v || list.includes(v)) return;
+        list.push(v);
+        this.notify();
+    }
+
+    public removeBlock(kind: SongBlockKind, value: string) {
+        const list = this.getBlockList(kind);
+        const index = list ? list.indexOf(value) : -1;
+        if (index === -1) return;
+        list!.splice(index, 1);
+        this.notify();
     }
 
-    private isValidYoutubeLink(text: string): boolean {
+    private getBlockList(kind: SongBlockKind): string[] | null {
+        if (kind === 'video') return this.blocklist.videoIds;
+        if (kind === 'channel') return this.blocklist.channels;
+        if (kind === 'keyword') return this.blocklist.keywords;
+        return null;
+    }
+
+    public isValidYoutubeLink(text: string): boolean {
         return /(?:https?:\/\/)?(?:www\.)?(?:youtube\.com\/(?:watch\?v=|shorts\/)|youtu\.be\/)([a-zA-Z0-9_-]{11})/.test(text);
     }
 
-    private async fetchSongInfo(query: string, requester: string): Promise<Song> {
+    private extractVideoId(query: string): string {
         let videoId = query;
         try {
             if (query.includes('://')) {
@@ -136,17 +359,68 @@ export class SongManager {
                 else if (url.hostname === 'youtu.be') videoId = url.pathname.slice(1);
             }
         } catch (e) { }
-        const info = await ytdl.getBasicInfo(videoId);
-        return { videoId: info.videoDetails.videoId, title: info.videoDetails.title, thumbnail: info.videoDetails.thumbnails[0]?.url, requester, requestedAt: Date.now() };
+        return videoId;
     }
 
-    public playNext() {
+    private async fetchSongInfo(query: string, requester: string): Promise<Song> {
+        const info = await ytdl.getBasicInfo(this.extractVideoId(query));
+        const d = info.videoDetails;
+        return {
+            videoId: d.videoId,
+            title: d.title,
+            thumbnail: d.thumbnails[0]?.url,
+            requester,
+            requestedAt: Date.now(),
+            duration: parseInt(d.lengthSeconds) || 0,
+            viewCount: parseInt(d.viewCount) || 0,
+            channelId: d.channelId || '',
+            channelName: d.ownerChannelName || d.author?.name || '',
+            priority: 0,
+            tier: '일반'
+        };
+    }
+
+    public getLastPlayed(): SongHistoryEntry | null {
+        return this.history[0] || null;
+    }
+
+    /**
+     * 현재 곡을 재생 기록에 남깁니다.
+     */
+    private recordHistory(skipped: boolean) {
+        if (!this.currentSong || this.currentSong.isFallback) return;
+        const entry: SongHistoryEntry = {
+            videoId: this.currentSong.videoId,
+            title: this.currentSong.title,
+            requester: this.currentSong.requester,
+            requesterId: this.currentSong.requesterId,
+            startedAt: this.currentStartedAt || null,
+            endedAt: Date.now(),
+            skipped,
+            liveId: this.bot.liveDetail?.status === 'OPEN' ? this.bot.liveDetail.liveId : null
+        };
+        this.history = [entry, ...this.history].slice(0, RECENT_HISTORY_SIZE);
+        DataManager.logSongHistory(this.bot.getChannelId(), entry);
+    }
+
+    public playNext(skipped: boolean = false) {
+        this.recordHistory(skipped);
+        this.skipVotes.clear();
+        this.progress = { position: 0, duration: 0, updatedAt: 0 };
         if (this.queue.length > 0) {
             this.currentSong = this.queue.shift() || null;
+            if (this.currentSong) this.recentVideoIds = [...this.recentVideoIds, this.currentSong.videoId].slice(-100);
+            this.currentStartedAt = Date.now();
             this.isPlaying = true;
             this.notify();
             // [중요] 플레이어 재생 명령 명시적 전송
             this.onStateChangeCallback('playerControl', { action: 'play' });
+        } else if (this.hasFallback()) {
+            this.currentSong = { ...this.pickFallbackSong(), isFallback: true, requestedAt: Date.now() };
+            this.currentStartedAt = Date.now();
+            this.isPlaying = true;
+            this.notify();
+            this.onStateChangeCallback('playerControl', { action: 'play' });
         } else {
             this.currentSong = null;
             this.isPlaying = false;
@@ -154,7 +428,126 @@ export class SongManager {
         }
     }
 
-    public skipSong() { this.playNext(); }
+    public skipSong() { this.playNext(true); }
+
+    // ==========================================
+    // 플레이어 동기화
+    // ==========================================
+    /**
+     * 현재 재생 위치. 재생 중이면 마지막 보고 이후 경과 시간을 더해 추정합니다.
+     */
+    public getProgress() {
+        const duration = this.progress.duration || this.currentSong?.duration || 0;
+        let position = this.progress.position;
+        if (this.isPlaying && this.progress.updatedAt) position += (Date.now() - this.progress.updatedAt) / 1000;
+        if (duration > 0) position = Math.min(position, duration);
+        return { videoId: this.currentSong?.videoId || null, position: Math.floor(position), duration, isPlaying: this.isPlaying };
+    }
+
+    /**
+     * 플레이어의 재생 위치 보고. 저장 없이 진행 상황만 갱신합니다.
+     */
+    public updateProgress(videoId: string, position: number, duration: number) {
+        if (!this.currentSong || this.currentSong.videoId !== videoId) return null;
+        this.progress = {
+            position: Math.max(0, Number(position) || 0),
+            duration: Math.max(0, Number(duration) || 0),
+            updatedAt: Date.now()
+        };
+        return this.getProgress();
+    }
+
+    /**
+     * 곡 재생 종료 시 다음 곡으로 자동 진행 (이전 곡의 늦은 보고는 무시)
+     */
+    public handlePlayerEnded(videoId: string) {
+        if (!this.currentSong || this.currentSong.videoId !== videoId) return;
+        this.playNext(false);
+    }
+
+    /**
+     * 재생할 수 없는 영상(삭제, 퍼가기 금지 등)은 알림 후 건너뜁니다.
+     */
+    public handlePlayerError(videoId: string, code?: number | string) {
+        if (!this.currentSong || this.currentSong.videoId !== videoId) return;
+        console.warn(`[SongManager] Player error (${code}) on ${videoId}`);
+        if (this.bot.chat) this.bot.chat.sendChat(`⚠️ 재생할 수 없는 영상이라 건너뜁니다: ${this.currentSong.title}`);
+        this.playNext(true);
+    }
+
+    /**
+     * 스킵에 필요한 투표 수. 비율 모드는 현재 시청자 수 기준 (최소 1명)
+     */
+    private getSkipVoteRequired(): number {
+        const settings = this.bot.settings?.getSettings();
+        const threshold = Math.max(0, Number(settings?.songSkipVoteThreshold) || 0);
+        if (settings?.songSkipVoteMode === 'percent') {
+            const viewers = this.bot.liveDetail?.concurrentUserCount || 0;
+            return Math.max(1, Math.ceil(viewers * threshold / 100));
+        }
+        return Math.max(1, Math.floor(threshold));
+    }
+
+    // ==========================================
+    // 기본 재생목록 (대기열이 비었을 때)
+    // ==========================================
+    private hasFallback(): boolean {
+        return this.fallback.enabled && this.fallback.songs.length > 0;
+    }
+
+    private pickFallbackSong(): Song {
+        const songs = this.fallback.songs;
+        if (this.fallback.mode === 'order') {
+            const song = songs[this.fallback.cursor % songs.length];
+            this.fallback.cursor = (this.fallback.cursor + 1) % songs.length;
+            return song;
+        }
+        // 셔플: 직전 곡은 가능하면 피함
+        const candidates = songs.length > 1 ? songs.filter(s => s.videoId !== this.currentSong?.videoId) : songs;
+        return candidates[Math.floor(Math.random() * candidates.length)];
+    }
+
+    /**
+     * 유튜브 링크 목록으로 기본 재생목록에 곡 추가. 추가된 곡 수를 반환합니다.
+     */
+    public async importFallbackSongs(links: string[]): Promise<number> {
+        let added = 0;
+        for (const link of (links || []).map(l => String(l).trim()).filter(Boolean)) {
+            if (this.fallback.songs.length >= MAX_FALLBACK_SONGS) break;
+            if (!this.isValidYoutubeLink(link)) continue;
+            const videoId = this.extractVideoId(link);
+            if (this.fallback.songs.some(s => s.videoId === videoId)) continue;
+            try {
+                this.fallback.songs.push(await this.fetchSongInfo(link, '플레이리스트'));
+                added++;
+            } catch (err) { }
+        }
+        if (added > 0) {
+            if (!this.currentSong && this.hasFallback()) this.playNext();
+            else this.notify();
+        }
+        return added;
+    }
+
+    public removeFallbackSong(videoId: string) {
+        this.fallback.songs = this.fallback.songs.filter(s => s.videoId !== videoId);
+        this.fallback.cursor = 0;
+        this.notify();
+    }
+
+    public clearFallbackSongs() {
+        this.fallback.songs = [];
+        this.fallback.cursor = 0;
+        this.notify();
+    }
+
+    public updateFallbackSettings(settings: { enabled?: boolean; mode?: 'shuffle' | 'order' }) {
+        if (settings.enabled !== undefined) this.fallback.enabled = !!settings.enabled;
+        if (settings.mode === 'shuffle' || settings.mode === 'order') this.fallback.mode = settings.mode;
+
+        if (!this.currentSong && this.hasFallback()) this.playNext();
+        else this.notify();
+    }
 
     public removeSong(index: number) {
         if (index >= 0 && index < this.queue.length) {
@@ -165,6 +558,8 @@ export class SongManager {
 
     // [핵심] 재생/일시정지 토글 시 플레이어 제어 신호 발송
     public togglePlayPause() {
+        // 일시정지 시점의 추정 위치를 고정
+        if (this.progress.updatedAt) this.progress = { ...this.progress, position: this.getProgress().position, updatedAt: Date.now() };
         this.isPlaying = !this.isPlaying;
 
         // 1. 상태 업데이트 (아이콘 변경용)
@@ -176,5 +571,5 @@ export class SongManager {
         console.log(`[SongManager] Toggled Playback: ${this.isPlaying ? 'Playing' : 'Paused'}`);
     }
 
-    public getData() { return { songQueue: this.queue, currentSong: this.currentSong, isPlaying: this.isPlaying }; }
+    public getData() { return { songQueue: this.queue, currentSong: this.currentSong, isPlaying: this.isPlaying, blocklist: this.blocklist, fallback: this.fallback }; }
 }
\ No newline at end of file
@@ -0,0 +1,101 @@
+export const DEFAULT_TIMEZONE = 'Asia/Seoul';
+// 치지직 API의 시각 문자열(openDate 등)은 오프셋 없이 KST로 내려옴
+export const CHZZK_TIMEZONE = 'Asia/Seoul';
+
+const formatterCache: Map<string, Intl.DateTimeFormat> = new Map();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+    let formatter = formatterCache.get(timezone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone: timezone, hourCycle: 'h23',
+            year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit'
+        });
+        formatterCache.set(timezone, formatter);
+    }
+    return formatter;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+    if (!timezone) return false;
+    try {
+        getFormatter(timezone);
+        return true;
+    } catch (e) {
+        return false;
+    }
+}
+
+function resolveTimezone(timezone?: string): string {
+    return timezone && isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE;
+}
+
+/**
+ * 특정 시각을 해당 시간대의 달력 값으로 분해합니다.
+ */
+export function getZonedParts(date: Date, timezone?: string) {
+    const parts: { [type: string]: number } = {};
+    for (const p of getFormatter(resolveTimezone(timezone)).formatToParts(date)) {
+        if (p.type !== 'literal') parts[p.type] = parseInt(p.value);
+    }
+    return {
+        year: parts.year, month: parts.month, day: parts.day,
+        hour: parts.hour, minute: parts.minute, second: parts.second,
+        weekday: new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay() // 0: 일요일
+    };
+}
+
+function pad(n: number) { return String(n).padStart(2, '0'); }
+
+/**
+ * 시간대 기준 날짜 키 (YYYY-MM-DD). 일일 인사, 하루 1회 카운터 등에 사용
+ */
+export function getDateKey(timezone?: string, date: Date = new Date()): string {
+    const p = getZonedParts(date, timezone);
+    return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+}
+
+/**
+ * 시간대 기준 이번 주 월요일의 날짜 키
+ */
+export function getWeekStartKey(timezone?: string, date: Date = new Date()): string {
+    const p = getZonedParts(date, timezone);
+    const monday = new Date(Date.UTC(p.year, p.month - 1, p.day - ((p.weekday + 6) % 7)));
+    return monday.toISOString().split('T')[0];
+}
+
+/**
+ * 해당 시각에서 시간대의 UTC 오프셋 (밀리초)
+ */
+export function getTimezoneOffset(timezone: string, date: Date = new Date()): number {
+    const p = getZonedParts(date, timezone);
+    const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+    return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * 오프셋 없는 시각 문자열("2024-01-01 12:00:00")을 지정한 시간대 기준으로 해석합니다.
+ * 오프셋이 포함된 ISO 문자열은 그대로 파싱합니다.
+ */
+export function parseZonedDateTime(value: string, timezone?: string): number {
+    const m = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})(?::(\d{2}))?$/.exec((value || '').trim());
+    if (!m) return new Date(value).getTime();
+
+    const [, y, mo, d, h, mi, s] = m;
+    const guess = Date.UTC(+y, +mo - 1, +d, +h, +mi, +(s || 0));
+    const tz = resolveTimezone(timezone);
+    // 오프셋을 한 번 더 보정해 서머타임 경계에서도 맞도록 함
+    const first = guess - getTimezoneOffset(tz, new Date(guess));
+    return guess - getTimezoneOffset(tz, new Date(first));
+}
+
+/**
+ * 경과 시간 포맷 (예: 1시간 2분 3초)
+ */
+export function formatDuration(ms: number): string {
+    const diff = Math.max(0, ms);
+    const hours = Math.floor(diff / (1000 * 60 * 60));
+    const mins = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
+    const secs = Math.floor((diff % (1000 * 60)) / 1000);
+    return `${hours}시간 ${mins}분 ${secs}초`;
+}
@@ -1,59 +1,254 @@
 import { ChatEvent } from 'chzzk';
 import { BotInstance } from './BotInstance';
+import { CHZZK_TIMEZONE, formatDuration, parseZonedDateTime } from './TimeUtils';
 
+export interface VariableContext {
+    chat?: ChatEvent; // 매크로처럼 채팅 없이 실행되는 경우 비어 있음
+    commandState?: any;
+    counterState?: any;
+    args?: string[];
+    match?: string[];
+}
+
+type VariableResolver = (context: VariableContext, index?: number) => string;
+
+type TemplateNode =
+    | { type: 'text'; value: string }
+    | { type: 'var'; name: string; index?: number }
+    | { type: 'func'; name: string; args: TemplateNode[][] };
+
+// 함수명 → 인자 구분자
+const FUNCTIONS: { [name: string]: string } = { random: '|', rand: ',', var: '|', default: '|' };
+// 뒤에 숫자가 붙는 변수 (/arg1, /match2)
+const INDEXED_VARIABLES = ['arg', 'match'];
+// 역슬래시로 이스케이프 가능한 문자
+const ESCAPABLE = ['/', '(', ')', '|', ',', '\\'];
+
+/**
+ * 템플릿 파서: 문자열을 텍스트/변수/함수 노드로 분해합니다.
+ * - /name           변수
+ * - /default(/name|기본값) 값이 비어 있을 때 기본값 사용
+ * - /random(a|b|c)  범위 지정 랜덤
+ * - /rand(1,100)    숫자 범위 랜덤
+ * - /var(이름|기본값) 채널 변수
+ * - \/              슬래시 문자 그대로 출력
+ * 변수 바로 뒤의 괄호는 일반 텍스트로 남음 (기존 응답의 "/user(시청자)" 등 호환)
+ */
+class TemplateParser {
+    private pos = 0;
+
+    constructor(private src: string, private isVariable: (name: string) => boolean) { }
+
+    public parse(): TemplateNode[] {
+        return this.parseSequence([]);
+    }
+
+    private parseSequence(stops: string[]): TemplateNode[] {
+        const nodes: TemplateNode[] = [];
+        let text = '';
+        let depth = 0; // 인자 안의 일반 괄호 짝 맞추기
+        const flush = () => { if (text) { nodes.push({ type: 'text', value: text }); text = ''; } };
+
+        while (this.pos < this.src.length) {
+            const ch = this.src[this.pos];
+            const next = this.src[this.pos + 1];
+
+            if (ch === '\\' && ESCAPABLE.includes(next)) {
+                text += next;
+                this.pos += 2;
+                continue;
+            }
+            if (depth === 0 && stops.includes(ch)) break;
+
+            if (ch === '/') {
+                const node = this.parseVariable();
+                if (node) { flush(); nodes.push(node); continue; }
+            }
+            if (ch === '(') depth++;
+            else if (ch === ')' && depth > 0) depth--;
+
+            text += ch;
+            this.pos++;
+        }
+        flush();
+        return nodes;
+    }
+
+    private parseVariable(): TemplateNode | null {
+        const m = /^\/([A-Za-z]+)(\d*)/.exec(this.src.slice(this.pos, this.pos + 64));
+        if (!m) return null;
+        const [, word, digits] = m;
+
+        // 1. 함수 호출
+        if (FUNCTIONS[word] && this.src[this.pos + 1 + word.length] === '(') {
+            this.pos += 2 + word.length;
+            return { type: 'func', name: word, args: this.parseArgs(FUNCTIONS[word]) };
+        }
+
+        // 2. 번호 변수 (/arg1, /match2)
+        let name = '';
+        let index: number | undefined;
+        if (digits && INDEXED_VARIABLES.includes(word)) {
+            name = word;
+            index = parseInt(digits);
+            this.pos += 1 + word.length + digits.length;
+        } else {
+            // 3. 일반 변수: 가장 긴 이름을 우선 (/countall > /count)
+            for (let len = word.length; len > 0; len--) {
+                const candidate = word.slice(0, len);
+                if (this.isVariable(candidate) || candidate === 'random') { name = candidate; break; }
+            }
+            if (!name) return null;
+            this.pos += 1 + name.length;
+        }
+
+        return { type: 'var', name, index };
+    }
+
+    private parseArgs(separator: string): TemplateNode[][] {
+        const args: TemplateNode[][] = [];
+        while (this.pos <= this.src.length) {
+            args.push(this.parseSequence([separator, ')']));
+            const ch = this.src[this.pos];
+            this.pos++;
+            if (ch !== separator) break;
+        }
+        return args;
+    }
+}
+
+/**
+ * VariableProcessor: 명령어/카운터/인사말 응답의 변수와 함수를 처리합니다.
+ * 시청자 입력(/args 등)은 치환 결과로만 들어가므로 다시 해석되지 않습니다.
+ */
 export class VariableProcessor {
-    constructor(private bot: BotInstance) {}
+    private variables: { [name: string]: VariableResolver } = {};
+
+    constructor(private bot: BotInstance) {
+        this.registerDefaults();
+    }
 
-    public async process(text: string, context: { chat: ChatEvent, commandState?: any, counterState?: any }): Promise<string> {
-        let result = text;
-        const userId = context.chat.profile.userIdHash;
+    private registerDefaults() {
+        const live = () => (this.bot as any).liveDetail;
+        const channel = () => (this.bot as any).channel;
 
         // [1] 시청자 관련
-        result = result.replace(/\/user/g, context.chat.profile.nickname);
-        
+        this.variables.user = (ctx) => ctx.chat?.profile.nickname || '';
+
         // [2] 채널 및 라이브 관련
-        const live = (this.bot as any).liveDetail;
-        const channel = (this.bot as any).channel;
-        
-        result = result.replace(/\/channel/g, channel?.channelName || "스트리머");
-        result = result.replace(/\/follower/g, channel?.followerCount?.toLocaleString() || "0");
-        result = result.replace(/\/viewer/g, live?.concurrentUserCount?.toLocaleString() || "0");
-        result = result.replace(/\/title/g, live?.liveTitle || "제목 없음");
-        result = result.replace(/\/category/g, live?.category || "미지정");
-
-        if (live?.openDate) result = result.replace(/\/uptime/g, this.calculateUptime(live.openDate));
-
-        // [3] 카운터 처리 (/count, /countall)
-        // 카운터 실행 시 (counterState 존재)
-        if (context.counterState) {
-            const userCount = context.counterState.userCounts?.[userId] || 0;
-            const totalCount = context.counterState.count || 0;
-            result = result.replace(/\/countall/g, String(totalCount)); // 전체 횟수
-            result = result.replace(/\/count/g, String(userCount));    // 개인 횟수
-        } 
-        // 일반 명령어 실행 시 (commandState 존재)
-        else if (context.commandState) {
-            const userCount = context.commandState.userCounts?.[userId] || 0;
-            const totalCount = context.commandState.totalCount || 0;
-            result = result.replace(/\/countall/g, String(totalCount));
-            result = result.replace(/\/count/g, String(userCount));
-        }
-
-        // [4] 랜덤 함수
-        if (result.includes('/random')) {
-            const parts = result.split('/random');
-            result = parts[Math.floor(Math.random() * parts.length)].trim();
-        }
-
-        return result;
-    }
-
-    private calculateUptime(openDateStr: string): string {
-        const openDate = new Date(openDateStr).getTime();
-        const diff = Date.now() - openDate;
-        const hours = Math.floor(diff / (1000 * 60 * 60));
-        const mins = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
-        const secs = Math.floor((diff % (1000 * 60)) / 1000);
-        return `${hours}시간 ${mins}분 ${secs}초`;
-    }
-}
\ No newline at end of file
+        this.variables.channel = () => channel()?.channelName || "스트리머";
+        this.variables.follower = () => channel()?.followerCount?.toLocaleString() || "0";
+        this.variables.viewer = () => live()?.concurrentUserCount?.toLocaleString() || "0";
+        this.variables.title = () => live()?.liveTitle || "제목 없음";
+        this.variables.category = () => live()?.category || "미지정";
+        this.variables.uptime = () => live()?.openDate ? formatDuration(Date.now() - parseZonedDateTime(live().openDate, CHZZK_TIMEZONE)) : '';
+
+        // [3] 카운터 (/count: 개인 횟수, /countall: 전체 횟수)
+        this.variables.count = (ctx) => {
+            const state = ctx.counterState || ctx.commandState;
+            return state && ctx.chat ? String(state.userCounts?.[ctx.chat.profile.userIdHash] || 0) : '';
+        };
+        this.variables.countall = (ctx) => {
+            if (ctx.counterState) return String(ctx.counterState.count || 0);
+            if (ctx.commandState) return String(ctx.commandState.totalCount || 0);
+            return '';
+        };
+
+        // [4] 인자 (/arg1, /args, /target, /match1)
+        this.variables.args = (ctx) => (ctx.args || []).join(' ');
+        this.variables.arg = (ctx, index) => ctx.args?.[(index || 1) - 1] || '';
+        this.variables.target = (ctx) => ctx.args?.[0]?.replace(/^@/, '') || ctx.chat?.profile.nickname || '';
+        this.variables.match = (ctx, index) => ctx.match?.[index || 0] || '';
+
+        // [5] 포인트
+        this.variables.points = (ctx) => ctx.chat && this.bot.points ? this.bot.points.getPoints(ctx.chat.profile.userIdHash).toLocaleString() : '';
+        this.variables.pointsrank = (ctx) => {
+            const rank = ctx.chat && this.bot.points ? this.bot.points.getRank(ctx.chat.profile.userIdHash) : 0;
+            return rank > 0 ? String(rank) : '';
+        };
+
+        // [6] 신청곡
+        this.variables.song = () => this.bot.songs?.getState().currentSong?.title || '';
+        this.variables.songrequester = () => this.bot.songs?.getState().currentSong?.requester || '';
+        this.variables.lastsong = () => this.bot.songs?.getLastPlayed()?.title || '';
+        this.variables.queuelength = () => String(this.bot.songs?.getState().queue.length || 0);
+
+        // [7] 시청자 참여 및 투표
+        this.variables.myqueuepos = (ctx) => {
+            if (!ctx.chat || !this.bot.participation) return '';
+            const index = this.bot.participation.getState().queue.findIndex(p => p.userIdHash === ctx.chat!.profile.userIdHash);
+            return index > -1 ? String(index + 1) : '';
+        };
+        this.variables.participants = () => String(this.bot.participation?.getState().participants.length || 0);
+        this.variables.maxparticipants = () => String(this.bot.participation?.getState().maxParticipants || 0);
+        this.variables.waiting = () => String(this.bot.participation?.getState().queue.length || 0);
+        this.variables.waitinglist = () => {
+            const queue = this.bot.participation?.getState().queue || [];
+            const list = queue.slice(0, 5).map((p, i) => `${i + 1}. ${p.nickname}`).join(', ');
+            return queue.length > 5 ? `${list} ...` : list;
+        };
+        this.variables.participantlist = () => (this.bot.participation?.getState().participants || []).map(p => p.nickname).join(', ');
+        this.variables.pcommand = () => this.bot.settings?.getSettings().participationCommand || '!시참';
+        this.variables.votetitle = () => {
+            const vote = this.bot.vote?.getStates().vote;
+            return vote && vote.status !== 'idle' ? vote.title : '';
+        };
+    }
+
+    public async process(text: string, context: VariableContext): Promise<string> {
+        if (!text) return '';
+        const nodes = new TemplateParser(text, (name) => name in this.variables).parse();
+
+        // 괄호 없는 /random은 기존 방식대로 응답 전체를 구간으로 나누어 하나를 선택
+        const segments: TemplateNode[][] = [[]];
+        for (const node of nodes) {
+            if (node.type === 'var' && node.name === 'random') segments.push([]);
+            else segments[segments.length - 1].push(node);
+        }
+        if (segments.length > 1) {
+            const picked = segments[Math.floor(Math.random() * segments.length)];
+            return this.evaluate(picked, context).trim();
+        }
+
+        return this.evaluate(nodes, context);
+    }
+
+    private evaluate(nodes: TemplateNode[], context: VariableContext): string {
+        return nodes.map(node => this.evaluateNode(node, context)).join('');
+    }
+
+    private evaluateNode(node: TemplateNode, context: VariableContext): string {
+        if (node.type === 'text') return node.value;
+
+        if (node.type === 'func') {
+            if (node.name === 'random') {
+                const choice = node.args[Math.floor(Math.random() * node.args.length)];
+                return this.evaluate(choice || [], context).trim();
+            }
+            if (node.name === 'rand') {
+                let min = parseInt(this.evaluate(node.args[0] || [], context));
+                let max = parseInt(this.evaluate(node.args[1] || [], context));
+                if (isNaN(min) || isNaN(max)) return '';
+                if (min > max) [min, max] = [max, min];
+                return String(min + Math.floor(Math.random() * (max - min + 1)));
+            }
+            if (node.name === 'default') {
+                return this.evaluate(node.args[0] || [], context) || this.evaluate(node.args[1] || [], context);
+            }
+            if (node.name === 'var') {
+                const name = this.evaluate(node.args[0] || [], context).trim();
+                return this.bot.variables?.get(name) || this.evaluate(node.args[1] || [], context);
+            }
+            return '';
+        }
+
+        const resolver = this.variables[node.name];
+        let value = '';
+        try {
+            value = resolver ? resolver(context, node.index) : '';
+        } catch (e) {
+            console.error(`[VariableProcessor] Failed to resolve /${node.name}:`, e);
+        }
+        return value;
+    }
+}
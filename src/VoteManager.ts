@@ -52,6 +52,8 @@ export class VoteManager {
     };
 
     private intervals: { vote?: NodeJS.Timeout, draw?: NodeJS.Timeout } = {};
+    // 타이머 마감 시각 (ms). 남은 시간은 매초 마감 시각 기준으로 다시 계산해 재시작 후에도 이어감
+    private deadlines: { vote: number, draw: number } = { vote: 0, draw: 0 };
 
     constructor(private bot: BotInstance) {
         this.loadActiveState();
@@ -81,11 +83,18 @@ export class VoteManager {
                     }),
                     status: 'active',
                     mode: vote.mode === 'chat' ? 'numeric' : 'donation',
-                    timer: 0, // Timer reset on restart (can't easily sync exact seconds without complex diff)
+                    timer: 0,
                     allowMultiVote: vote.allow_multiple,
                     showOverlay: true,
-                    voteUnit: 1000 // Default
+                    voteUnit: vote.vote_unit || 1000
                 };
+
+                // 마감 시각이 있으면 남은 시간부터 이어서, 서버가 꺼진 사이 지났으면 바로 종료
+                if (vote.ends_at) {
+                    this.deadlines.vote = new Date(vote.ends_at).getTime();
+                    if (this.deadlines.vote <= Date.now()) await this.endVote();
+                    else this.startVoteTimer();
+                }
             }
         } catch (e) {
             console.error('[VoteManager] Load Vote Error:', e);
@@ -98,21 +107,29 @@ export class VoteManager {
 
             if (draw) {
                 const { data: parts } = await supabase.from('draw_participants').select('*').eq('session_id', draw.id);
+                const candidates = (parts || []).map((p: any) => ({ name: p.nickname, role: p.role, lastMessage: '' }));
+                // 당첨자가 있으면 추첨 직후 화면(ended)으로 복구
+                const winner = draw.winner_nickname
+                    ? candidates.find((c: any) => c.name === draw.winner_nickname) || { name: draw.winner_nickname, role: '', lastMessage: '' }
+                    : null;
                 this.drawState = {
                     sessionId: draw.id,
-                    status: draw.status as any,
+                    status: winner ? 'ended' : draw.status as any,
                     keyword: draw.keyword,
-                    candidates: (parts || []).map((p: any) => ({ name: p.nickname, role: p.role, lastMessage: '' })),
-                    winner: null,
-                    // Typically do not load previous winners from old session if this is fresh init, 
-                    // but if restoring session, we might want to check DB for past winners in this session? 
-                    // For now, keep empty on restart to avoid complexity unless user complains.
-                    previousWinners: [],
+                    candidates,
+                    winner,
+                    previousWinners: draw.previous_winners || [],
                     timer: 0,
                     showOverlay: true,
                     subsOnly: draw.subs_only,
                     excludeWinners: draw.exclude_winners ?? false
                 };
+
+                // 모집 마감이 이미 지났다면 타이머만 0으로 둠 (기존 만료 동작과 동일)
+                if (draw.ends_at) {
+                    this.deadlines.draw = new Date(draw.ends_at).getTime();
+                    if (this.deadlines.draw > Date.now()) this.startDrawTimer();
+                }
             }
         } catch (e) {
             console.error('[VoteManager] Load Draw Error:', e);
@@ -167,6 +184,9 @@ export class VoteManager {
                 mode: mode === 'numeric' ? 'chat' : 'donation',
                 status: 'active',
                 allow_multiple: allowMulti,
+                duration_seconds: duration,
+                vote_unit: unit,
+                ends_at: duration > 0 ? new Date(Date.now() + duration * 1000).toISOString() : null,
                 started_at: new Date().toISOString()
             }).select().single();
 
@@ -204,18 +224,29 @@ export class VoteManager {
 
         if (this.intervals.vote) clearInterval(this.intervals.vote);
         if (duration > 0) {
-            this.intervals.vote = setInterval(() => {
-                if (this.voteState.timer > 0) {
-                    this.voteState.timer--;
-                    if (this.voteState.timer % 5 === 0) this.broadcast();
-                } else {
-                    this.endVote();
-                }
-            }, 1000);
+            this.deadlines.vote = Date.now() + duration * 1000;
+            this.startVoteTimer();
         }
         this.broadcast();
     }
 
+    private getRemainingSeconds(deadline: number): number {
+        return Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+    }
+
+    private startVoteTimer() {
+        if (this.intervals.vote) clearInterval(this.intervals.vote);
+        this.voteState.timer = this.getRemainingSeconds(this.deadlines.vote);
+        this.intervals.vote = setInterval(() => {
+            this.voteState.timer = this.getRemainingSeconds(this.deadlines.vote);
+            if (this.voteState.timer > 0) {
+                if (this.voteState.timer % 5 === 0) this.broadcast();
+            } else {
+                this.endVote();
+            }
+        }, 1000);
+    }
+
     public async endVote() {
         if (this.voteState.status !== 'active') return;
         this.voteState.status = 'ended';
@@ -333,13 +364,17 @@ export class VoteManager {
     // DRAW SYSTEM (Viewer Pickup)
     // ==========================================
     public async startDrawRecruit(keyword: string, subsOnly: boolean, excludeWinners: boolean, duration: number) {
+        this.closeDrawSession();
         let dbSessionId: string | null = null;
         try {
             const { data } = await supabase.from('draw_sessions').insert({
                 channel_id: this.bot.getChannelId(),
                 keyword,
                 subs_only: subsOnly,
-                // exclude_winners: excludeWinners, // TODO: Add column to DB if persistent
+                exclude_winners: excludeWinners,
+                duration_seconds: duration,
+                ends_at: duration > 0 ? new Date(Date.now() + duration * 1000).toISOString() : null,
+                previous_winners: [],
                 status: 'recruiting',
                 created_at: new Date().toISOString()
             }).select().single();
@@ -361,19 +396,26 @@ export class VoteManager {
 
         if (this.intervals.draw) clearInterval(this.intervals.draw);
         if (duration > 0) {
-            this.intervals.draw = setInterval(() => {
-                if (this.drawState.timer > 0) {
-                    this.drawState.timer--;
-                    if (this.drawState.timer % 5 === 0) this.broadcast();
-                } else {
-                    if (this.intervals.draw) clearInterval(this.intervals.draw);
-                    this.broadcast();
-                }
-            }, 1000);
+            this.deadlines.draw = Date.now() + duration * 1000;
+            this.startDrawTimer();
         }
         this.broadcast();
     }
 
+    private startDrawTimer() {
+        if (this.intervals.draw) clearInterval(this.intervals.draw);
+        this.drawState.timer = this.getRemainingSeconds(this.deadlines.draw);
+        this.intervals.draw = setInterval(() => {
+            this.drawState.timer = this.getRemainingSeconds(this.deadlines.draw);
+            if (this.drawState.timer > 0) {
+                if (this.drawState.timer % 5 === 0) this.broadcast();
+            } else {
+                if (this.intervals.draw) clearInterval(this.intervals.draw);
+                this.broadcast();
+            }
+        }, 1000);
+    }
+
     public handleDrawMessage(chat: ChatEvent) {
         if (this.drawState.status !== 'recruiting') return;
 
@@ -422,11 +464,12 @@ export class VoteManager {
         this.drawState.status = 'ended';
 
         // [DB] Update Winner
+        // 추가 추첨/되돌리기가 가능하므로 세션은 'picking'으로 두고, 종료/초기화 시 'ended'로 닫음
         if (this.drawState.sessionId && !this.drawState.sessionId.startsWith('draw_')) {
             await supabase.from('draw_sessions').update({
-                status: 'ended',
+                status: 'picking',
                 winner_nickname: winner.name,
-                ended_at: new Date().toISOString()
+                previous_winners: this.drawState.previousWinners
             }).eq('id', this.drawState.sessionId);
         }
 
@@ -443,11 +486,30 @@ export class VoteManager {
 
             this.drawState.winner = null;
             this.drawState.status = 'recruiting'; // Go back to state that allows actions
+
+            // [DB] 재시작 시 복구되도록 모집 상태와 당첨 이력을 되돌림
+            if (this.drawState.sessionId && !this.drawState.sessionId.startsWith('draw_')) {
+                supabase.from('draw_sessions').update({
+                    status: 'recruiting',
+                    winner_nickname: null,
+                    previous_winners: this.drawState.previousWinners
+                }).eq('id', this.drawState.sessionId).then(({ error }) => { if (error) console.error('Draw Undo Update Error:', error); });
+            }
             this.broadcast();
         }
     }
 
+    // [DB] 세션 종료 (재시작 시 더 이상 복구하지 않음)
+    private closeDrawSession() {
+        if (!this.drawState.sessionId || this.drawState.sessionId.startsWith('draw_')) return;
+        supabase.from('draw_sessions').update({
+            status: 'ended',
+            ended_at: new Date().toISOString()
+        }).eq('id', this.drawState.sessionId).then(({ error }) => { if (error) console.error('Draw Close Error:', error); });
+    }
+
     public stopDraw() {
+        this.closeDrawSession();
         this.drawState.status = 'idle';
         this.drawState.showOverlay = false;
         if (this.intervals.draw) clearInterval(this.intervals.draw);
@@ -455,6 +517,7 @@ export class VoteManager {
     }
 
     public resetDraw() {
+        this.closeDrawSession();
         this.drawState = {
             ...this.drawState,
             status: 'idle',
@@ -498,11 +561,11 @@ export class VoteManager {
         this.broadcast();
     }
 
-    public spinRoulette() {
-        if (this.rouletteState.isSpinning) return;
+    public spinRoulette(): boolean {
+        if (this.rouletteState.isSpinning) return false;
 
         if (this.rouletteState.activeItems.length < 2) {
-            if (this.rouletteState.items.length < 2) return;
+            if (this.rouletteState.items.length < 2) return false;
             this.rouletteState.activeItems = [...this.rouletteState.items];
         }
 
@@ -542,6 +605,7 @@ export class VoteManager {
             this.rouletteState.isSpinning = false;
             this.broadcast();
         }, 4000);
+        return true;
     }
 
     public resetRoulette() {
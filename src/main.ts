@@ -31,6 +31,36 @@ app.get('/api/auth/session', async (req, res) => {
     res.json({ authenticated: !!session, user: session?.user || null });
 });
 
+app.get('/api/songs/stats', async (req, res) => {
+    try {
+        const token = req.headers.authorization?.split(' ')[1] || req.cookies?.chzzk_session;
+        const session = token ? await authManager.validateSession(token) : null;
+        if (!session) return res.status(401).json({ error: 'unauthorized' });
+
+        // 쿼리는 문자열 하나만 허용 (?from=a&from=b 같은 배열 거부)
+        const param = (name: string): string | undefined | null => {
+            const value = req.query[name];
+            if (value === undefined || value === '') return undefined;
+            return typeof value === 'string' ? value : null;
+        };
+        const parseInteger = (value: string | undefined | null) => value === undefined ? undefined : value !== null && /^\d+$/.test(value) ? parseInt(value) : NaN;
+        const parseDate = (value: string | undefined | null) => value === undefined ? undefined : value !== null ? Date.parse(value) : NaN;
+
+        const filter = {
+            liveId: parseInteger(param('liveId')),
+            from: parseDate(param('from')),
+            to: parseDate(param('to')),
+            limit: parseInteger(param('limit'))
+        };
+        if (Object.values(filter).some(v => v !== undefined && isNaN(v))) return res.status(400).json({ error: 'invalid query' });
+
+        res.json(await DataManager.loadSongStats(session.user.channelId, filter));
+    } catch (err) {
+        console.error('[API] Song stats error:', err);
+        res.status(500).json({ error: 'internal error' });
+    }
+});
+
 app.get('/auth/login', (req, res) => res.redirect(authManager.generateAuthUrl().url));
 
 app.get('/auth/callback', async (req, res) => {
@@ -41,6 +71,8 @@ app.get('/auth/callback', async (req, res) => {
 });
 
 const channelClientsMap: Map<string, Set<WebSocket>> = new Map();
+// 채널별로 열려 있는 노래 플레이어 창 수 (마지막 창이 닫힐 때만 연결 해제 처리)
+const playerConnectionsMap: Map<string, number> = new Map();
 
 wss.on('connection', async (ws, req) => {
     const url = new URL(req.url || '', `http://${req.headers.host}`);
@@ -77,6 +109,8 @@ wss.on('connection', async (ws, req) => {
         try { safeSend('songStateUpdate', bot.songs.getState()); } catch (e) { }
         try { safeSend('participationStateUpdate', bot.participation.getState()); } catch (e) { }
         try { safeSend('greetStateUpdate', bot.greet.getState()); } catch (e) { }
+        try { safeSend('variablesUpdate', bot.variables.getVariables()); } catch (e) { }
+        try { safeSend('rewardsUpdate', bot.rewards.getState()); } catch (e) { }
 
 
         try { safeSend('chatHistoryLoad', channelChatHistory.get(channelId) || []); } catch (e) { }
@@ -87,6 +121,8 @@ wss.on('connection', async (ws, req) => {
         } catch (e) { }
     };
 
+    let isPlayerClient = false; // 노래 플레이어 창 여부 (연결 해제 시 상태 갱신용)
+
     ws.on('message', async (message) => {
         try {
             const data = JSON.parse(message.toString());
@@ -115,15 +151,18 @@ wss.on('connection', async (ws, req) => {
                 case 'requestData': await sendFullState(bot); break;
                 case 'updateSettings': bot.settings.updateSettings(data.data); break;
 
-                case 'addCommand': bot.commands.addCommand(data.data.trigger, data.data.response); break;
+                case 'addCommand': bot.commands.addCommand(data.data.trigger, data.data.response, data.data); break;
                 case 'removeCommand': bot.commands.removeCommand(data.data.trigger); break;
-                case 'updateCommand': bot.commands.removeCommand(data.data.oldTrigger); bot.commands.addCommand(data.data.trigger, data.data.response); break;
+                case 'updateCommand': bot.commands.updateCommand(data.data.oldTrigger, data.data.trigger, data.data.response, data.data); break;
                 case 'toggleCommand':
                     const tCmd = bot.commands.getCommands().find(c => (c.triggers?.[0] || (c as any).trigger) === data.data.trigger);
                     if (tCmd) { tCmd.enabled = data.data.enabled; bot.saveAll(); broadcast('commandsUpdate', bot.commands.getCommands()); }
                     break;
-                case 'addCounter': bot.counters.addCounter(data.data.trigger, data.data.response, data.data.oncePerDay); break;
+                case 'addCounter': bot.counters.addCounter(data.data.trigger, data.data.response, data.data.oncePerDay, data.data.resetPeriod); break;
                 case 'removeCounter': bot.counters.removeCounter(data.data.trigger); break;
+                case 'adjustCounter': bot.counters.adjustCounter(data.data.trigger, data.data.mode, Number(data.data.value)); break;
+                case 'resetCounter': bot.counters.resetCounter(data.data.trigger); break;
+                case 'updateCounterReset': bot.counters.updateResetPeriod(data.data.trigger, data.data.resetPeriod); break;
                 case 'toggleCounter':
                     const tCnt = bot.counters.getCounters().find(c => c.trigger === data.data.trigger);
                     if (tCnt) { tCnt.enabled = data.data.enabled; bot.saveAll(); broadcast('countersUpdate', bot.counters.getCounters()); }
@@ -136,23 +175,95 @@ wss.on('connection', async (ws, req) => {
                     if (tMac) { tMac.enabled = data.data.enabled; bot.saveAll(); broadcast('macrosUpdate', bot.macros.getMacros()); }
                     break;
                 case 'toggleParticipation': bot.participation.getState().isParticipationActive ? bot.participation.stopParticipation() : bot.participation.startParticipation(); break;
-                case 'moveToParticipants': bot.participation.moveToParticipants(data.data.userIdHash); break;
+                case 'moveToParticipants':
+                    bot.participation.moveToParticipants(data.data.userIdHash);
+                    broadcast('participationRankingUpdate', bot.participation.getRanking());
+                    break;
+                case 'nextParticipationRound':
+                    bot.participation.nextRound();
+                    broadcast('participationRankingUpdate', bot.participation.getRanking());
+                    break;
                 case 'removeParticipant': bot.participation.removeUser(data.data.userIdHash); break;
+                case 'reorderParticipant': bot.participation.reorder(data.data.userIdHash, Number(data.data.position)); break;
                 case 'clearParticipants': bot.participation.clearAllData(); break;
                 case 'updateMaxParticipants': bot.participation.updateMax(data.payload.count); break;
                 case 'updateGreetSettings': bot.greet.updateSettings(data.data); break;
                 case 'resetGreetHistory': bot.greet.clearHistory(); break;
+                case 'setVariable': bot.variables.setVariable(data.data.name, data.data.value); break;
+                case 'removeVariable': bot.variables.removeVariable(data.data.name); break;
+                case 'addReward': bot.rewards.addReward(data.data); break;
+                case 'updateReward': bot.rewards.updateReward(data.data.id, data.data); break;
+                case 'removeReward': bot.rewards.removeReward(data.data.id); break;
+                case 'adjustPoints': {
+                    const success = bot.points.adjustPoints(data.data.userIdHash, data.data.mode, Number(data.data.amount), data.data.reason, session.user.channelName || 'dashboard');
+                    ws.send(JSON.stringify({ type: 'adjustPointsResult', payload: { success, userIdHash: data.data.userIdHash } }));
+                    break;
+                }
+                case 'requestPointLedger':
+                    ws.send(JSON.stringify({ type: 'pointLedger', payload: await DataManager.loadPointTransactions(channelId, data.data.userIdHash, data.data.page, data.data.pageSize) }));
+                    break;
+                case 'closePointSeason': {
+                    // 감소율은 비어 있으면 설정값을 쓰고, 0~100 사이 숫자가 아니면 보관 전에 거부
+                    const rawDecay = data.data?.decayPercent;
+                    const decayPercent = rawDecay === undefined || rawDecay === null || rawDecay === '' ? undefined
+                        : typeof rawDecay === 'number' || typeof rawDecay === 'string' ? Number(rawDecay) : NaN;
+                    const validDecay = decayPercent === undefined || (Number.isFinite(decayPercent) && decayPercent >= 0 && decayPercent <= 100);
+                    const success = validDecay && await bot.closePointSeason(data.data?.name, decayPercent);
+                    ws.send(JSON.stringify({ type: 'closePointSeasonResult', payload: { success } }));
+                    if (success) ws.send(JSON.stringify({ type: 'pointSeasons', payload: await DataManager.loadPointSeasons(channelId) }));
+                    break;
+                }
+                case 'requestPointSeasons':
+                    ws.send(JSON.stringify({ type: 'pointSeasons', payload: await DataManager.loadPointSeasons(channelId) }));
+                    break;
+                case 'approveRedemption': await bot.rewards.approveRedemption(data.data.id); break;
+                case 'refundRedemption': bot.rewards.refundRedemption(data.data.id); break;
                 case 'controlMusic':
                     if (data.action === 'skip') bot.songs.skipSong();
                     if (data.action === 'togglePlayPause') bot.songs.togglePlayPause();
                     if (data.action === 'playNext') bot.songs.playNext();
                     if (data.action === 'remove') bot.songs.removeSong(data.index);
                     break;
+                case 'addSongBlock': bot.songs.addBlock(data.data.kind, data.data.value); break;
+                case 'removeSongBlock': bot.songs.removeBlock(data.data.kind, data.data.value); break;
+                case 'importFallbackPlaylist': {
+                    const links = Array.isArray(data.data.links) ? data.data.links : String(data.data.links || '').split(/\s+/);
+                    const added = await bot.songs.importFallbackSongs(links);
+                    ws.send(JSON.stringify({ type: 'importFallbackPlaylistResult', payload: { added } }));
+                    break;
+                }
+                case 'removeFallbackSong': bot.songs.removeFallbackSong(data.data.videoId); break;
+                case 'clearFallbackPlaylist': bot.songs.clearFallbackSongs(); break;
+                case 'updateFallbackSettings': bot.songs.updateFallbackSettings(data.data); break;
+                case 'playerConnected':
+                    if (!isPlayerClient) {
+                        isPlayerClient = true;
+                        playerConnectionsMap.set(channelId, (playerConnectionsMap.get(channelId) || 0) + 1);
+                    }
+                    bot.songs.setPlayerConnected(true);
+                    break;
+                case 'playerProgress': {
+                    const progress = bot.songs.updateProgress(data.data.videoId, data.data.position, data.data.duration);
+                    if (progress) broadcast('songProgress', progress);
+                    break;
+                }
+                case 'playerEnded': bot.songs.handlePlayerEnded(data.data.videoId); break;
+                case 'playerError': bot.songs.handlePlayerError(data.data.videoId, data.data.code); break;
             }
         } catch (err) { console.error('[WS] System Error:', err); }
     });
 
-    ws.on('close', () => { clients.delete(ws); });
+    ws.on('close', () => {
+        clients.delete(ws);
+        if (!isPlayerClient) return;
+        const remaining = (playerConnectionsMap.get(channelId) || 1) - 1;
+        if (remaining > 0) {
+            playerConnectionsMap.set(channelId, remaining);
+        } else {
+            playerConnectionsMap.delete(channelId);
+            botManager.getBot(channelId)?.songs.setPlayerConnected(false);
+        }
+    });
 });
 
 server.listen(port, '0.0.0.0', () => console.log(`✅ gummybot Server Online: Port ${port}`));
\ No newline at end of file